@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+
+/**
+ * Amend Event CLI
+ *
+ * Correct or retract an earlier event without editing the JSONL files
+ *
+ * Usage:
+ *   npm run amend -- correct <event_id> field=value ... [--ts <when>] [--reason <text>]
+ *   npm run amend -- retract <event_id> [--reason <text>]
+ *   npm run amend -- history <event_id>
+ *
+ * --ts takes an ISO timestamp or a phrase such as "yesterday 18:00".
+ */
+
+import { correctEvent, retractEvent, getEventHistory } from './lib/corrections.js';
+import { parseWhen } from './lib/natural-dates.js';
+
+function usage(): never {
+  console.error('Usage:');
+  console.error('  npm run amend -- correct <event_id> field=value ... [--ts <when>] [--reason <text>]');
+  console.error('  npm run amend -- retract <event_id> [--reason <text>]');
+  console.error('  npm run amend -- history <event_id>');
+  console.error('\nValues are parsed as JSON where possible (numbers, true/false, arrays);');
+  console.error('field=null removes the field.');
+  process.exit(1);
+}
+
+/**
+ * Parse a field=value argument, reading the value as JSON when it is valid JSON
+ */
+function parseAssignment(arg: string): [string, any] {
+  const eq = arg.indexOf('=');
+  if (eq <= 0) {
+    throw new Error(`Expected field=value, got "${arg}"`);
+  }
+
+  const field = arg.slice(0, eq);
+  const raw = arg.slice(eq + 1);
+  try {
+    return [field, JSON.parse(raw)];
+  } catch {
+    return [field, raw];
+  }
+}
+
+async function main() {
+  const [command, eventId, ...rest] = process.argv.slice(2);
+  if (!command || !eventId) usage();
+
+  const changes: Record<string, any> = {};
+  let ts: string | undefined;
+  let reason: string | undefined;
+
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--ts') {
+      ts = rest[++i];
+    } else if (rest[i] === '--reason') {
+      reason = rest[++i];
+    } else {
+      const [field, value] = parseAssignment(rest[i]);
+      changes[field] = value;
+    }
+  }
+
+  try {
+    switch (command) {
+      case 'correct': {
+        const event = await correctEvent(eventId, {
+          changes: Object.keys(changes).length > 0 ? changes : undefined,
+          ts: ts && parseWhen(ts).ts,
+          reason,
+        });
+        console.log(`✅ Corrected ${eventId} (${event.event_id})`);
+        break;
+      }
+
+      case 'retract': {
+        const event = await retractEvent(eventId, reason);
+        console.log(`✅ Retracted ${eventId} (${event.event_id})`);
+        break;
+      }
+
+      case 'history': {
+        const history = await getEventHistory(eventId);
+        if (!history.original) {
+          console.error(`❌ Event not found: ${eventId}`);
+          process.exit(1);
+        }
+
+        console.log('Original:');
+        console.log(`  ${JSON.stringify(history.original)}`);
+        console.log(`\nAmendments (${history.amendments.length}):`);
+        for (const amendment of history.amendments) {
+          console.log(`  ${JSON.stringify(amendment)}`);
+        }
+        console.log('\nCurrent:');
+        console.log(history.current ? `  ${JSON.stringify(history.current)}` : '  (retracted)');
+        break;
+      }
+
+      default:
+        usage();
+    }
+  } catch (error: any) {
+    console.error('❌', error.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+
+/**
+ * As-Of CLI
+ *
+ * Reconstruct tasks and goals as they stood at a point in time, or show what
+ * changed between two points
+ *
+ * Usage:
+ *   npm run as-of -- <date> [tasks|goals|summary]
+ *   npm run as-of -- diff <from> <to>
+ *
+ * A bare date (YYYY-MM-DD) means the end of that day. Phrases such as
+ * "yesterday", "last friday 12:00" or "forrige mandag" work too.
+ */
+
+import { getOpenTasks, getActiveGoals, getWeeklySummary, diffState } from './lib/query.js';
+import { parseAsOf } from './lib/natural-dates.js';
+import type { Task, Goal } from './lib/types.js';
+
+function usage(): never {
+  console.error('Usage:');
+  console.error('  npm run as-of -- <date> [tasks|goals|summary]');
+  console.error('  npm run as-of -- diff <from> <to>');
+  process.exit(1);
+}
+
+function taskLine(task: Task): string {
+  return `  - ${task.title} [${task.status}] \`${task.id}\``;
+}
+
+function goalLine(goal: Goal): string {
+  return `  - ${goal.title || 'Untitled goal'} [${goal.status}] \`${goal.id}\``;
+}
+
+async function showState(asOf: string, what?: string) {
+  console.log(`State as of ${asOf}\n`);
+
+  if (!what || what === 'tasks') {
+    const tasks = await getOpenTasks({ asOf });
+    console.log(`Open tasks (${tasks.length}):`);
+    tasks.forEach(task => console.log(taskLine(task)));
+    console.log();
+  }
+
+  if (!what || what === 'goals') {
+    const goals = await getActiveGoals({ asOf });
+    console.log(`Active goals (${goals.length}):`);
+    goals.forEach(goal => console.log(goalLine(goal)));
+    console.log();
+  }
+
+  if (what === 'summary') {
+    const summary = await getWeeklySummary({ asOf });
+    console.log(`Week ${summary.period.key}:`);
+    console.log(`  Tasks created:     ${summary.tasks_created.length}`);
+    console.log(`  Tasks completed:   ${summary.tasks_completed.length}`);
+    console.log(`  Meetings:          ${summary.meetings.length}`);
+    console.log(`  Exercise sessions: ${summary.exercise_sessions.length}`);
+    console.log(`  Work hours:        ${summary.work_hours.toFixed(1)}h`);
+    console.log(`  Check-ins:         ${summary.checkins.length}`);
+  }
+}
+
+async function showDiff(from: string, to: string) {
+  const diff = await diffState(from, to);
+  console.log(`Changes from ${from} to ${to}\n`);
+
+  const sections: [string, string[]][] = [
+    ['Tasks added', diff.tasks.added.map(taskLine)],
+    ['Tasks completed', diff.tasks.completed.map(taskLine)],
+    ['Tasks abandoned', diff.tasks.abandoned.map(taskLine)],
+    ['Tasks changed status', diff.tasks.changed.map(c => `${taskLine(c.task)} (was ${c.from})`)],
+    ['Goals set', diff.goals.set.map(goalLine)],
+    ['Goals achieved', diff.goals.achieved.map(goalLine)],
+    ['Goals abandoned', diff.goals.abandoned.map(goalLine)],
+  ];
+
+  let empty = true;
+  for (const [title, lines] of sections) {
+    if (lines.length === 0) continue;
+    empty = false;
+    console.log(`${title} (${lines.length}):`);
+    lines.forEach(line => console.log(line));
+    console.log();
+  }
+
+  if (empty) {
+    console.log('No changes to tasks or goals.');
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.length === 0) usage();
+
+  try {
+    if (args[0] === 'diff') {
+      if (args.length < 3) usage();
+      await showDiff(parseAsOf(args[1]), parseAsOf(args[2]));
+    } else {
+      if (args[1] && !['tasks', 'goals', 'summary'].includes(args[1])) usage();
+      await showState(parseAsOf(args[0]), args[1]);
+    }
+  } catch (error: any) {
+    console.error('❌', error.message);
+    process.exit(1);
+  }
+}
+
+main();
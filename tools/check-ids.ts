@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+
+/**
+ * Check IDs CLI
+ *
+ * Report entity IDs that were created more than once (e.g. two task.created
+ * events with the same ID after a race between writers)
+ */
+
+import { findIdConflicts } from './lib/integrity.js';
+import { readEvents } from './lib/events.js';
+
+async function main() {
+  console.log('Checking entity IDs...\n');
+
+  try {
+    const conflicts = await findIdConflicts();
+
+    if (conflicts.length === 0) {
+      console.log('✅ No duplicate IDs found');
+      return;
+    }
+
+    console.log(`⚠️  Found ${conflicts.length} duplicate ID${conflicts.length === 1 ? '' : 's'}:\n`);
+
+    for (const conflict of conflicts) {
+      const related = await readEvents({ id: conflict.id });
+      const followUps = related.length - conflict.events.length;
+
+      console.log(`${conflict.id}`);
+      conflict.events.forEach((event, i) => {
+        const title = event.data.title || 'Untitled';
+        const action = i === 0 ? 'keeps ID' : `suggested ID: ${conflict.suggested_ids[i - 1]}`;
+        console.log(`  - ${event.type} at ${event.ts} (${event.source}, ${event.event_id}): "${title}" → ${action}`);
+      });
+      if (followUps > 0) {
+        console.log(`  ${followUps} other event${followUps === 1 ? '' : 's'} reference this ID; check which entity each one belongs to.`);
+      }
+      console.log();
+    }
+
+    console.log('The stream is append-only, so duplicates are not rewritten automatically.');
+    console.log('Re-create the affected entities under the suggested IDs, then retract the');
+    console.log('duplicate creation events: npm run amend -- retract <event_id> --reason "duplicate ID"');
+    process.exit(1);
+  } catch (error) {
+    console.error('❌ Error checking IDs:', error);
+    process.exit(1);
+  }
+}
+
+main();
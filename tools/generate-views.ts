@@ -17,7 +17,15 @@ async function main() {
     console.log('✅ Views generated successfully:');
     console.log('   - views/open-tasks.md');
     console.log('   - views/goals-status.md');
+    console.log('   - views/goals-archive.md');
     console.log('   - views/weekly-review.md');
+    console.log('   - views/meetings.md');
+    console.log('   - views/timesheet.md');
+    console.log('   - views/portfolio.md');
+    console.log('   - views/health.md');
+    console.log('   - views/mental.md');
+    console.log('   - views/correlations.md');
+    console.log('   - views/reviews/ (current and previous week and month)');
     console.log('\nViews are up to date!');
   } catch (error) {
     console.error('❌ Error generating views:', error);
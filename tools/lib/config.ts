@@ -0,0 +1,21 @@
+/**
+ * Runtime configuration from the environment
+ */
+
+/**
+ * Resolve the home timezone that days, weeks and review periods are counted in
+ *
+ * Set LIFE_TZ to an IANA zone (e.g. Europe/Oslo); defaults to the zone of
+ * the machine.
+ */
+function getHomeTimeZone(): string {
+  const zone = process.env.LIFE_TZ || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+  } catch {
+    throw new Error(`Invalid LIFE_TZ timezone: ${zone}`);
+  }
+  return zone;
+}
+
+export const HOME_TZ = getHomeTimeZone();
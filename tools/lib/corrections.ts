@@ -0,0 +1,123 @@
+/**
+ * Amend earlier events without editing the JSONL files
+ *
+ * A correction overwrites data fields (and optionally the timestamp) of a
+ * target event; a retraction withdraws it. Both are ordinary events that
+ * reference the target by event_id, and readEvents applies them on read.
+ */
+
+import { readEvents, logEvent } from './events.js';
+import { validateEvent, EventValidationError } from './schema.js';
+import { normalizeTimestamp } from './dates.js';
+import type { BaseEvent, CorrectionData } from './types.js';
+
+/**
+ * Find a single event by its event_id, as written (uncorrected)
+ */
+export async function findEvent(eventId: string): Promise<BaseEvent | null> {
+  const events = await readEvents(undefined, { raw: true });
+  return events.find(e => e.event_id === eventId) || null;
+}
+
+/**
+ * Get the raw history of an event: the original plus every amendment
+ */
+export async function getEventHistory(eventId: string): Promise<{
+  original: BaseEvent | null;
+  amendments: BaseEvent[];
+  current: BaseEvent | null;
+}> {
+  const original = await findEvent(eventId);
+  const amendments = (await readEvents({ eventType: 'event.' }, { raw: true }))
+    .filter(e => e.data.target === eventId);
+  const current = original
+    ? (await readEvents({ eventType: original.type })).find(e => e.event_id === eventId) || null
+    : null;
+
+  return { original, amendments, current };
+}
+
+/**
+ * Log a correction for an earlier event
+ *
+ * The corrected event is validated against the target's schema before the
+ * correction is written. `timestamp` is when the correction was made, if
+ * not now; it decides from when an as-of replay sees it.
+ */
+export async function correctEvent(
+  eventId: string,
+  correction: Omit<CorrectionData, 'target'>,
+  options?: { source?: string; timestamp?: string }
+): Promise<BaseEvent> {
+  const target = await findAmendableEvent(eventId);
+
+  if (!correction.ts && Object.keys(correction.changes || {}).length === 0) {
+    throw new Error('A correction needs changes, a new timestamp, or both');
+  }
+
+  // Validate the event as it will read after this correction
+  const current = (await readEvents({ eventType: target.type })).find(e => e.event_id === eventId)!;
+  const preview: BaseEvent = { ...current, data: { ...current.data } };
+  if (correction.ts) preview.ts = correction.ts;
+  for (const [field, value] of Object.entries(correction.changes || {})) {
+    if (value === null) {
+      delete preview.data[field];
+    } else {
+      preview.data[field] = value;
+    }
+  }
+  const issues = validateEvent(preview);
+  if (issues.length > 0) {
+    throw new EventValidationError(target.type, issues);
+  }
+
+  const data: Record<string, any> = { target: eventId };
+  if (correction.changes) data.changes = correction.changes;
+  if (correction.ts) data.ts = normalizeTimestamp(correction.ts);
+  if (correction.reason) data.reason = correction.reason;
+
+  return logEvent('event.corrected', data, { source: options?.source, timestamp: options?.timestamp });
+}
+
+/**
+ * Log a retraction for an earlier event, made at `timestamp` if not now
+ */
+export async function retractEvent(
+  eventId: string,
+  reason?: string,
+  options?: { source?: string; timestamp?: string }
+): Promise<BaseEvent> {
+  await findAmendableEvent(eventId, { allowCorrections: true });
+
+  const data: Record<string, any> = { target: eventId };
+  if (reason) data.reason = reason;
+
+  return logEvent('event.retracted', data, { source: options?.source, timestamp: options?.timestamp });
+}
+
+/**
+ * Look up the target of an amendment and check it can still be amended
+ */
+async function findAmendableEvent(
+  eventId: string,
+  options?: { allowCorrections?: boolean }
+): Promise<BaseEvent> {
+  const target = await findEvent(eventId);
+  if (!target) {
+    throw new Error(`Event not found: ${eventId}`);
+  }
+
+  if (target.type === 'event.retracted' && !options?.allowCorrections) {
+    throw new Error(`${eventId} is a retraction; retract it instead of correcting it`);
+  }
+  if (target.type === 'event.corrected' && !options?.allowCorrections) {
+    throw new Error(`${eventId} is a correction; retract it and log a new correction instead`);
+  }
+
+  const retractions = await readEvents({ eventType: 'event.retracted' });
+  if (retractions.some(r => r.data.target === eventId)) {
+    throw new Error(`${eventId} has already been retracted`);
+  }
+
+  return target;
+}
@@ -0,0 +1,298 @@
+/**
+ * Correlation engine - align daily aggregates across domains and compare them
+ */
+
+import { readEvents } from './events.js';
+import { dayKey, addDays } from './dates.js';
+import { getWorkSessions } from './work.js';
+import { getMeetings } from './meetings.js';
+import { getHealthTrends } from './health.js';
+import { getMentalTrends } from './mental.js';
+import type {
+  DailyMetric,
+  DailyAggregate,
+  Correlation,
+  Comparison,
+  CorrelationReport,
+} from './types.js';
+
+const DEFAULT_RANGE_DAYS = 90;
+const DEFAULT_MAX_LAG = 1;
+const DEFAULT_MIN_SAMPLES = 7;
+
+export const DAILY_METRICS: DailyMetric[] = [
+  'exercise_min',
+  'runs',
+  'sleep_min',
+  'mood',
+  'energy',
+  'anxiety',
+  'work_hours',
+  'meetings',
+  'draining_meetings',
+];
+
+const METRIC_LABELS: Record<DailyMetric, string> = {
+  exercise_min: 'exercise minutes',
+  runs: 'runs',
+  sleep_min: 'sleep',
+  mood: 'mood',
+  energy: 'energy',
+  anxiety: 'anxiety',
+  work_hours: 'work hours',
+  meetings: 'meetings',
+  draining_meetings: 'draining meetings',
+};
+
+// Counts and totals are 0 on days without events; the rest are measurements
+// that are simply missing when nothing was logged
+const COUNTED_METRICS: DailyMetric[] = ['exercise_min', 'runs', 'work_hours', 'meetings', 'draining_meetings'];
+
+// Questions the report always answers
+const DEFAULT_COMPARISONS: Omit<Comparison, 'with' | 'without' | 'difference'>[] = [
+  { description: 'Mood the day after a run', driver: 'runs', threshold: 1, outcome: 'mood', lag: 1 },
+  { description: 'Sleep the night after 30+ min of exercise', driver: 'exercise_min', threshold: 30, outcome: 'sleep_min', lag: 1 },
+  { description: 'Sleep the night after days with 4+ meetings', driver: 'meetings', threshold: 4, outcome: 'sleep_min', lag: 1 },
+  { description: 'Energy on days with a draining meeting', driver: 'draining_meetings', threshold: 1, outcome: 'energy', lag: 0 },
+  { description: 'Mood the day after 9+ hours of work', driver: 'work_hours', threshold: 9, outcome: 'mood', lag: 1 },
+  { description: 'Mood after 7+ hours of sleep', driver: 'sleep_min', threshold: 420, outcome: 'mood', lag: 0 },
+];
+
+/**
+ * Aggregate exercise, sleep, check-ins, work and meetings per local day
+ *
+ * Sleep counts toward the day it ended, so the night after day D is on D+1.
+ * Days before the first logged event in the range are left out, so that a
+ * stream that starts mid-range does not contribute a run of zeros.
+ */
+export async function getDailyAggregates(options?: {
+  startDate?: string;
+  endDate?: string;
+}): Promise<DailyAggregate[]> {
+  const end = options?.endDate ? dayKey(options.endDate) : dayKey(new Date());
+  const start = options?.startDate ? dayKey(options.startDate) : addDays(end, -(DEFAULT_RANGE_DAYS - 1));
+  const inRange = (day: string) => day >= start && day <= end;
+
+  const values: Record<string, Partial<Record<DailyMetric, number>>> = {};
+  const add = (day: string, metric: DailyMetric, amount: number) => {
+    if (!inRange(day)) return;
+    const entry = values[day] ||= {};
+    entry[metric] = (entry[metric] || 0) + amount;
+  };
+  const set = (day: string, metric: DailyMetric, value: number | undefined) => {
+    if (!inRange(day) || value === undefined) return;
+    (values[day] ||= {})[metric] = value;
+  };
+
+  const exercise = await readEvents({
+    eventType: 'exercise.completed',
+    startDate: addDays(start, -1),
+    endDate: addDays(end, 1),
+  });
+  for (const event of exercise) {
+    const day = dayKey(event.ts);
+    add(day, 'exercise_min', event.data.duration_min || 0);
+    if (event.data.activity === 'run') add(day, 'runs', 1);
+  }
+
+  const sessions = await getWorkSessions({ startDate: addDays(start, -1), endDate: addDays(end, 1) });
+  for (const session of sessions) {
+    if (session.status === 'complete') {
+      add(dayKey(session.start), 'work_hours', session.duration_min / 60);
+    }
+  }
+
+  for (const meeting of await getMeetings({ status: 'completed' })) {
+    if (!meeting.start) continue;
+    const day = dayKey(meeting.start);
+    add(day, 'meetings', 1);
+    if (meeting.energy === 'draining') add(day, 'draining_meetings', 1);
+  }
+
+  const health = await getHealthTrends({ startDate: start, endDate: end });
+  for (const day of health.days) {
+    set(day.date, 'sleep_min', day.sleep_min);
+  }
+
+  const mental = await getMentalTrends({ startDate: start, endDate: end });
+  for (const day of mental.days) {
+    set(day.date, 'mood', day.mood);
+    set(day.date, 'energy', day.energy);
+    set(day.date, 'anxiety', day.anxiety);
+  }
+
+  const logged = Object.keys(values).sort();
+  if (logged.length === 0) return [];
+
+  const aggregates: DailyAggregate[] = [];
+  for (let day = logged[0]; day <= end; day = addDays(day, 1)) {
+    const dayValues = { ...values[day] };
+    for (const metric of COUNTED_METRICS) {
+      dayValues[metric] ??= 0;
+    }
+    if (dayValues.work_hours !== undefined) {
+      dayValues.work_hours = Math.round(dayValues.work_hours * 100) / 100;
+    }
+    aggregates.push({ date: day, values: dayValues });
+  }
+
+  return aggregates;
+}
+
+/**
+ * Find correlations between daily metrics, same-day and lagged
+ *
+ * Each metric is paired with every other metric on the same day, and with
+ * every other metric up to `maxLag` days later. Pairs with fewer than
+ * `minSamples` days where both are known, or without any variation, are
+ * skipped. Comparisons default to a fixed set of common questions.
+ */
+export async function findCorrelations(options?: {
+  startDate?: string;
+  endDate?: string;
+  maxLag?: number;
+  minSamples?: number;
+  comparisons?: Omit<Comparison, 'with' | 'without' | 'difference' | 'description'>[];
+}): Promise<CorrelationReport> {
+  const aggregates = await getDailyAggregates(options);
+  const maxLag = options?.maxLag ?? DEFAULT_MAX_LAG;
+  const minSamples = options?.minSamples ?? DEFAULT_MIN_SAMPLES;
+
+  const correlations: Correlation[] = [];
+  for (let lag = 0; lag <= maxLag; lag++) {
+    DAILY_METRICS.forEach((x, i) => {
+      DAILY_METRICS.forEach((y, j) => {
+        // Same-day pairs are symmetric, so only count each once
+        if (x === y || (lag === 0 && j < i)) return;
+
+        const pairs = pairValues(aggregates, x, y, lag);
+        if (pairs.length < minSamples) return;
+
+        const r = pearson(pairs);
+        if (r === undefined) return;
+
+        correlations.push({ x, y, lag, r: round(r), n: pairs.length, description: describe(x, y, lag) });
+      });
+    });
+  }
+  correlations.sort((a, b) => Math.abs(b.r) - Math.abs(a.r));
+
+  const questions = options?.comparisons
+    ? options.comparisons.map(c => ({ ...c, description: describeComparison(c.driver, c.threshold, c.outcome, c.lag) }))
+    : DEFAULT_COMPARISONS;
+
+  const end = options?.endDate ? dayKey(options.endDate) : dayKey(new Date());
+  return {
+    start: aggregates[0]?.date ?? end,
+    end,
+    days: aggregates.length,
+    correlations,
+    comparisons: questions.map(question => compareDays(aggregates, question)),
+  };
+}
+
+/**
+ * Compare an outcome after days at or above a driver threshold with the rest
+ */
+export function compareDays(
+  aggregates: DailyAggregate[],
+  question: Omit<Comparison, 'with' | 'without' | 'difference'>
+): Comparison {
+  const withValues: number[] = [];
+  const withoutValues: number[] = [];
+
+  for (const [driver, outcome] of pairValues(aggregates, question.driver, question.outcome, question.lag)) {
+    (driver >= question.threshold ? withValues : withoutValues).push(outcome);
+  }
+
+  const withMean = withValues.length > 0 ? round(mean(withValues)) : undefined;
+  const withoutMean = withoutValues.length > 0 ? round(mean(withoutValues)) : undefined;
+
+  return {
+    ...question,
+    with: { mean: withMean, n: withValues.length },
+    without: { mean: withoutMean, n: withoutValues.length },
+    difference: withMean !== undefined && withoutMean !== undefined ? round(withMean - withoutMean) : undefined,
+  };
+}
+
+/**
+ * Get a human-readable name for a daily metric
+ */
+export function metricLabel(metric: DailyMetric): string {
+  return METRIC_LABELS[metric];
+}
+
+/**
+ * Pair x on each day with y `lag` days later, where both are known
+ */
+function pairValues(aggregates: DailyAggregate[], x: DailyMetric, y: DailyMetric, lag: number): [number, number][] {
+  const byDate: Record<string, DailyAggregate> = {};
+  for (const aggregate of aggregates) {
+    byDate[aggregate.date] = aggregate;
+  }
+
+  const pairs: [number, number][] = [];
+  for (const aggregate of aggregates) {
+    const xValue = aggregate.values[x];
+    const yValue = byDate[addDays(aggregate.date, lag)]?.values[y];
+    if (xValue !== undefined && yValue !== undefined) {
+      pairs.push([xValue, yValue]);
+    }
+  }
+  return pairs;
+}
+
+function pearson(pairs: [number, number][]): number | undefined {
+  const meanX = mean(pairs.map(([x]) => x));
+  const meanY = mean(pairs.map(([, y]) => y));
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return undefined;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+function describe(x: DailyMetric, y: DailyMetric, lag: number): string {
+  if (lag === 0) {
+    if (x === 'sleep_min' || y === 'sleep_min') {
+      const other = x === 'sleep_min' ? y : x;
+      return `${capitalize(METRIC_LABELS[other])} and sleep the night before`;
+    }
+    return `${capitalize(METRIC_LABELS[x])} and ${METRIC_LABELS[y]} on the same day`;
+  }
+  return `${capitalize(METRIC_LABELS[y])} ${lagPhrase(y, lag)} ${METRIC_LABELS[x]}`;
+}
+
+function describeComparison(driver: DailyMetric, threshold: number, outcome: DailyMetric, lag: number): string {
+  const days = `days with ${METRIC_LABELS[driver]} ≥ ${threshold}`;
+  return lag === 0
+    ? `${capitalize(METRIC_LABELS[outcome])} on ${days}`
+    : `${capitalize(METRIC_LABELS[outcome])} ${lagPhrase(outcome, lag)} ${days}`;
+}
+
+function lagPhrase(outcome: DailyMetric, lag: number): string {
+  // Sleep on day D+1 is the night after day D
+  const unit = outcome === 'sleep_min' ? 'night' : 'day';
+  return lag === 1 ? `the ${unit} after` : `${lag} ${unit}s after`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
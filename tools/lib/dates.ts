@@ -0,0 +1,195 @@
+/**
+ * Calendar and timestamp helpers for bucketing events into days and weeks
+ *
+ * Days are counted in the home timezone (LIFE_TZ) unless another zone is
+ * passed in. Timestamps are compared by instant, never as strings, since
+ * they may carry different offsets.
+ */
+
+import { HOME_TZ } from './config.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Instants of offset-less timestamps and bare dates, which need the
+// timezone database to resolve; query filters hit the same few many times
+const instants = new Map<string, number>();
+const MAX_CACHED_INSTANTS = 10_000;
+
+/**
+ * Get the local calendar date (YYYY-MM-DD) of a timestamp
+ *
+ * Timestamps without an offset (as synced from Fitbit) are already local
+ * wall-clock time, so their date is used as written; a bare date is
+ * returned as is.
+ */
+export function dayKey(ts: string | Date, timeZone: string = HOME_TZ): string {
+  if (typeof ts === 'string') {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(ts) || !hasOffset(ts)) {
+      return ts.slice(0, 10);
+    }
+    ts = new Date(ts);
+  }
+  const parts = zonedParts(ts, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+/**
+ * Get the instant at which a day (YYYY-MM-DD) starts in a timezone
+ */
+export function startOfDay(day: string, timeZone: string = HOME_TZ): Date {
+  return new Date(wallClockToInstant(Date.parse(`${day}T00:00:00Z`), timeZone));
+}
+
+/**
+ * Get the instant of a timestamp in milliseconds
+ *
+ * Timestamps without an offset are read as wall-clock time in the home
+ * timezone, and a bare date as the start of that day. Returns NaN for
+ * anything that is not a date.
+ */
+export function toInstant(ts: string, timeZone: string = HOME_TZ): number {
+  if (hasOffset(ts)) return Date.parse(ts);
+
+  const key = `${timeZone} ${ts}`;
+  let instant = instants.get(key);
+  if (instant === undefined) {
+    const wallClock = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(ts) ? `${ts}T00:00:00Z` : `${ts}Z`);
+    instant = isNaN(wallClock) ? NaN : wallClockToInstant(wallClock, timeZone);
+    if (instants.size >= MAX_CACHED_INSTANTS) instants.clear();
+    instants.set(key, instant);
+  }
+  return instant;
+}
+
+/**
+ * Order two timestamps by the instant they refer to, whatever their offsets
+ */
+export function compareTimestamps(a: string, b: string): number {
+  return toInstant(a) - toInstant(b);
+}
+
+/**
+ * Normalize a timestamp to full ISO 8601 with the home timezone's offset
+ *
+ * E.g. 2026-01-15T08:30:00.000+01:00. Timestamps with an offset keep their
+ * instant; those without one are read as wall-clock time in the home
+ * timezone, as Fitbit reports them.
+ */
+export function normalizeTimestamp(ts: string | Date, timeZone: string = HOME_TZ): string {
+  const instant = typeof ts === 'string' ? toInstant(ts, timeZone) : ts.getTime();
+  if (isNaN(instant)) {
+    throw new Error(`Invalid timestamp: ${ts}`);
+  }
+  return zonedTimestamp(new Date(instant), timeZone);
+}
+
+/**
+ * Format an instant as ISO 8601 wall-clock time in a timezone, with offset
+ */
+export function zonedTimestamp(date: Date, timeZone: string = HOME_TZ): string {
+  const offset = Math.round(offsetMs(date, timeZone) / 60_000);
+  const local = new Date(date.getTime() + offset * 60_000).toISOString().slice(0, 23);
+  const sign = offset < 0 ? '-' : '+';
+  return `${local}${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+}
+
+/**
+ * Turn a date or timestamp into an ISO timestamp for as-of queries
+ *
+ * A bare date (YYYY-MM-DD) means the end of that local day, so "as of
+ * 1 March" includes everything that happened on 1 March.
+ */
+export function asOfTimestamp(value: string): string {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(startOfDay(addDays(value, 1)).getTime() - 1)
+    : new Date(toInstant(value));
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Get the ISO week (e.g. 2026-W03) that a day belongs to
+ */
+export function weekKey(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  // The ISO week belongs to the year of its Thursday
+  const weekday = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((date.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return `${date.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Add a number of days to a day (YYYY-MM-DD)
+ */
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the ISO weekday of a day (YYYY-MM-DD), Monday = 1 ... Sunday = 7
+ */
+export function isoWeekday(day: string): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay() || 7;
+}
+
+/**
+ * Check whether a timestamp carries a UTC offset (Z or ±HH:MM)
+ */
+export function hasOffset(ts: string): boolean {
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(ts);
+}
+
+/**
+ * Get the offset of a timezone from UTC at an instant, in milliseconds
+ */
+export function offsetMs(date: Date, timeZone: string): number {
+  const parts = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert wall-clock milliseconds (as if UTC) to an instant in a timezone
+ */
+function wallClockToInstant(wallClock: number, timeZone: string): number {
+  // Correct twice, in case the first guess lands on the other side of a
+  // daylight saving change
+  let instant = wallClock - offsetMs(new Date(wallClock), timeZone);
+  instant = wallClock - offsetMs(new Date(instant), timeZone);
+  return instant;
+}
+
+function zonedParts(date: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
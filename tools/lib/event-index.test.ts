@@ -0,0 +1,49 @@
+/**
+ * Tests for the incremental event index
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { appendFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The stream location and timezone are read when the library is loaded
+const lifeDir = mkdtempSync(join(tmpdir(), 'life-stream-index-'));
+process.env.LIFE_DIR = lifeDir;
+process.env.LIFE_TZ = 'Europe/Oslo';
+const { logEvent, readEvents } = await import('./index.js');
+const { EVENTS_DIR } = await import('./paths.js');
+
+after(() => rmSync(lifeDir, { recursive: true, force: true }));
+
+test('a line caught half-written is indexed once it is complete', async () => {
+  await logEvent('mental.checkin', { mood: 6 }, { timestamp: '2026-01-05T20:00:00+01:00' });
+  assert.equal((await readEvents({ eventType: 'mental.checkin' })).length, 1);
+
+  // Another process is appending a line while this one reads
+  const line = JSON.stringify({
+    ts: '2026-01-06T20:00:00.000+01:00',
+    type: 'mental.checkin',
+    source: 'manual',
+    event_id: 'e-halfwritten',
+    data: { mood: 7 },
+  });
+  const file = join(EVENTS_DIR, '2026-01.jsonl');
+  await appendFile(file, line.slice(0, 40));
+  const errors = console.error;
+  console.error = () => {};
+  try {
+    assert.equal((await readEvents({ eventType: 'mental.checkin' })).length, 1);
+  } finally {
+    console.error = errors;
+  }
+
+  await appendFile(file, `${line.slice(40)}\n`);
+  const events = await readEvents({ eventType: 'mental.checkin' });
+  assert.deepEqual(events.map(e => e.data.mood), [6, 7]);
+
+  await logEvent('mental.checkin', { mood: 8 }, { timestamp: '2026-01-07T20:00:00+01:00' });
+  assert.deepEqual((await readEvents({ eventType: 'mental.checkin' })).map(e => e.data.mood), [6, 7, 8]);
+});
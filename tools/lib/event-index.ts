@@ -0,0 +1,426 @@
+/**
+ * Persistent on-disk index over the event files
+ *
+ * Keeps a summary per JSONL file (bytes indexed, mtime, event types, sources,
+ * entity IDs, external IDs and timestamp range) in .cache/event-index.json so
+ * queries only open the files that can contain matching events.
+ *
+ * Files are re-checked with a stat on every query. A file that only grew is
+ * indexed incrementally from the last indexed byte offset; any other change
+ * (edited by hand, rewritten, truncated) triggers a rescan of that file.
+ */
+
+import { readFile, writeFile, readdir, stat, mkdir, rename, open } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { join, relative, sep } from 'path';
+import { LIFE_DIR, EVENTS_DIR, SYNCED_DIR, CACHE_DIR } from './paths.js';
+import { toInstant } from './dates.js';
+import type { BaseEvent, QueryFilters } from './types.js';
+
+const INDEX_VERSION = 2;
+const INDEX_FILE = join(CACHE_DIR, 'event-index.json');
+const TAIL_BYTES = 64;
+
+export interface FileIndexEntry {
+  size: number; // Byte offset up to which the file has been indexed
+  mtimeMs: number;
+  tail: string; // Last bytes before `size`, used to detect rewrites
+  count: number;
+  minTs?: string;
+  maxTs?: string;
+  types: Record<string, number>;
+  sources: Record<string, number>;
+  ids: string[];
+  refs: Record<string, string[]>; // data.*_id field -> values (strava_id, task_id, ...)
+}
+
+interface IndexData {
+  version: number;
+  files: Record<string, FileIndexEntry>; // Keyed by path relative to LIFE_DIR
+}
+
+let index: IndexData | null = null;
+let dirty = false;
+let saving: Promise<void> = Promise.resolve();
+
+// Parsed events per file, kept in memory for long-running processes.
+// Events in the cache are shared with callers and must not be mutated.
+const eventCache = new Map<string, { size: number; mtimeMs: number; events: BaseEvent[] }>();
+
+/**
+ * Bring the index up to date with the files on disk
+ */
+export async function refreshIndex(): Promise<void> {
+  const data = await loadIndex();
+  const files = await listEventFiles();
+
+  for (const file of Object.keys(data.files)) {
+    if (!files.includes(file)) {
+      delete data.files[file];
+      eventCache.delete(file);
+      dirty = true;
+    }
+  }
+
+  for (const file of files) {
+    await refreshFile(file);
+  }
+
+  await saveIndex();
+}
+
+/**
+ * Update the index for a single file, e.g. right after appending to it
+ */
+export async function refreshFile(file: string): Promise<void> {
+  const data = await loadIndex();
+  const rel = toRelative(file);
+  const abs = join(LIFE_DIR, rel);
+
+  let info;
+  try {
+    info = await stat(abs);
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') throw err;
+    if (data.files[rel]) {
+      delete data.files[rel];
+      eventCache.delete(rel);
+      dirty = true;
+    }
+    return;
+  }
+
+  const entry = data.files[rel];
+  if (entry && entry.size === info.size && entry.mtimeMs === info.mtimeMs) {
+    return;
+  }
+
+  // Only complete lines are indexed; the size stops before a line that is
+  // still being written, so the next refresh picks it up whole
+  let appended: BaseEvent[] | undefined;
+  let size = info.size;
+  if (entry && info.size > entry.size && await isAppendOnly(abs, entry)) {
+    const range = await readBytes(abs, entry.size, info.size);
+    size = entry.size + completeLength(range);
+    const legacy = new Map<string, number>();
+    appended = parseLines(range.subarray(0, size - entry.size).toString('utf-8'), rel, legacy);
+    // Lines without an event_id are numbered among the identical lines of
+    // the whole file, which takes reading all of it
+    if (legacy.size > 0) appended = undefined;
+  }
+
+  if (entry && appended) {
+    const events = appended;
+    for (const event of events) {
+      addToEntry(entry, event);
+    }
+    entry.size = size;
+    entry.mtimeMs = info.mtimeMs;
+    entry.tail = await readTail(abs, size);
+
+    const cached = eventCache.get(rel);
+    if (cached) {
+      cached.events.push(...events);
+      cached.size = size;
+      cached.mtimeMs = info.mtimeMs;
+    }
+  } else {
+    const file = await readFile(abs);
+    const content = file.subarray(0, completeLength(file));
+    const events = parseLines(content.toString('utf-8'), rel);
+    const fresh = emptyEntry(content.length, info.mtimeMs, tailOf(content));
+    for (const event of events) {
+      addToEntry(fresh, event);
+    }
+    data.files[rel] = fresh;
+    eventCache.set(rel, { size: content.length, mtimeMs: info.mtimeMs, events });
+  }
+
+  dirty = true;
+}
+
+/**
+ * Persist the index if it changed
+ *
+ * Saves are queued, since concurrent saves in one process (e.g. MCP tool
+ * calls handled side by side) would share the temporary file.
+ */
+export function saveIndex(): Promise<void> {
+  saving = saving.then(writeIndex, writeIndex);
+  return saving;
+}
+
+async function writeIndex(): Promise<void> {
+  if (!index || !dirty) return;
+
+  // Changes made while writing mark the index dirty again
+  const content = JSON.stringify(index);
+  dirty = false;
+  try {
+    await mkdir(CACHE_DIR, { recursive: true });
+    const tmp = `${INDEX_FILE}.${process.pid}.tmp`;
+    await writeFile(tmp, content, 'utf-8');
+    await rename(tmp, INDEX_FILE);
+  } catch (error) {
+    dirty = true;
+    throw error;
+  }
+}
+
+/**
+ * Find the files that may contain events matching the filters
+ *
+ * Optionally restricted to files under a directory relative to LIFE_DIR
+ * (e.g. "synced/strava"). Returned paths are relative to LIFE_DIR.
+ */
+export function findFiles(filters?: QueryFilters, under?: string): string[] {
+  const files = index ? Object.entries(index.files) : [];
+  const prefix = under ? `${under.replace(/\/$/, '')}/` : '';
+
+  return files
+    .filter(([file, entry]) => {
+      if (prefix && !file.startsWith(prefix)) return false;
+      if (entry.count === 0) return false;
+      if (filters?.eventType && !Object.keys(entry.types).some(t => t.startsWith(filters.eventType!))) {
+        return false;
+      }
+      if (filters?.source && !entry.sources[filters.source]) return false;
+      if (filters?.id && !entry.ids.includes(filters.id)) return false;
+      if (filters?.startDate && entry.maxTs && toInstant(entry.maxTs) < toInstant(filters.startDate)) return false;
+      if (filters?.endDate && entry.minTs && toInstant(entry.minTs) > toInstant(filters.endDate)) return false;
+      return true;
+    })
+    .map(([file]) => file)
+    .sort();
+}
+
+/**
+ * Get the index entry for a file (relative to LIFE_DIR)
+ */
+export function getFileEntry(file: string): FileIndexEntry | undefined {
+  return index?.files[toRelative(file)];
+}
+
+/**
+ * Read the parsed events of an indexed file
+ */
+export async function readIndexedFile(file: string): Promise<BaseEvent[]> {
+  const rel = toRelative(file);
+  const entry = index?.files[rel];
+  const cached = eventCache.get(rel);
+
+  if (cached && entry && cached.size === entry.size && cached.mtimeMs === entry.mtimeMs) {
+    return cached.events;
+  }
+
+  // Read no further than the index did, past which a line may be half written
+  const abs = join(LIFE_DIR, rel);
+  const content = entry ? await readRange(abs, 0, entry.size) : await readFile(abs, 'utf-8');
+  const events = parseLines(content, rel);
+  if (entry) {
+    eventCache.set(rel, { size: entry.size, mtimeMs: entry.mtimeMs, events });
+  }
+  return events;
+}
+
+/**
+ * All entity IDs in the stream that start with a prefix
+ */
+export function findIds(prefix: string): string[] {
+  const ids = new Set<string>();
+  for (const entry of Object.values(index?.files || {})) {
+    for (const id of entry.ids) {
+      if (id.startsWith(prefix)) ids.add(id);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Check whether any file under a directory references an external ID
+ */
+export function hasRef(under: string, field: string, value: string): boolean {
+  return findFiles(undefined, under).some(file => index!.files[file].refs[field]?.includes(value));
+}
+
+/**
+ * Latest event timestamp among the files under a directory
+ */
+export function latestTimestamp(under: string): string | null {
+  let latest: string | null = null;
+  for (const file of findFiles(undefined, under)) {
+    const maxTs = index!.files[file].maxTs;
+    if (maxTs && (!latest || toInstant(maxTs) > toInstant(latest))) {
+      latest = maxTs;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Load the persisted index, or start an empty one
+ */
+async function loadIndex(): Promise<IndexData> {
+  if (index) return index;
+
+  try {
+    const parsed = JSON.parse(await readFile(INDEX_FILE, 'utf-8')) as IndexData;
+    if (parsed.version === INDEX_VERSION) {
+      index = parsed;
+      return index;
+    }
+  } catch (err: any) {
+    if (err.code !== 'ENOENT' && !(err instanceof SyntaxError)) throw err;
+  }
+
+  index = { version: INDEX_VERSION, files: {} };
+  dirty = true;
+  return index;
+}
+
+/**
+ * List all event files: events/*.jsonl and synced/<service>/*.jsonl
+ */
+async function listEventFiles(): Promise<string[]> {
+  const files: string[] = [];
+
+  const addDir = async (dir: string) => {
+    if (!existsSync(dir)) return;
+    for (const file of await readdir(dir)) {
+      if (file.endsWith('.jsonl')) {
+        files.push(toRelative(join(dir, file)));
+      }
+    }
+  };
+
+  await addDir(EVENTS_DIR);
+  if (existsSync(SYNCED_DIR)) {
+    const services = await readdir(SYNCED_DIR, { withFileTypes: true });
+    for (const service of services) {
+      if (service.isDirectory()) {
+        await addDir(join(SYNCED_DIR, service.name));
+      }
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Check that the bytes we indexed last time are still in place
+ */
+async function isAppendOnly(abs: string, entry: FileIndexEntry): Promise<boolean> {
+  return (await readTail(abs, entry.size)) === entry.tail;
+}
+
+async function readTail(abs: string, size: number): Promise<string> {
+  const start = Math.max(0, size - TAIL_BYTES);
+  return readRange(abs, start, size);
+}
+
+async function readRange(abs: string, start: number, end: number): Promise<string> {
+  return (await readBytes(abs, start, end)).toString('utf-8');
+}
+
+async function readBytes(abs: string, start: number, end: number): Promise<Buffer> {
+  const handle = await open(abs, 'r');
+  try {
+    const buffer = Buffer.alloc(end - start);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Get the length of the complete lines at the start of a buffer
+ *
+ * The last line counts once its newline is written, or if it already parses,
+ * as in a file that was saved without a final newline.
+ */
+function completeLength(buffer: Buffer): number {
+  const end = buffer.lastIndexOf(0x0a) + 1;
+  if (end === buffer.length) return end;
+  try {
+    JSON.parse(buffer.subarray(end).toString('utf-8'));
+    return buffer.length;
+  } catch {
+    return end;
+  }
+}
+
+function tailOf(content: Buffer): string {
+  return content.subarray(Math.max(0, content.length - TAIL_BYTES)).toString('utf-8');
+}
+
+/**
+ * Parse the lines of an event file
+ *
+ * `legacy` counts the lines without an event_id seen so far, so identical
+ * copies of a line get different IDs.
+ */
+function parseLines(content: string, file: string, legacy = new Map<string, number>()): BaseEvent[] {
+  const events: BaseEvent[] = [];
+  const lines = content.split('\n').filter(line => line.trim());
+
+  for (const line of lines) {
+    try {
+      const event = JSON.parse(line) as BaseEvent;
+      if (!event.event_id) {
+        const key = line.trim();
+        const occurrence = legacy.get(key) ?? 0;
+        legacy.set(key, occurrence + 1);
+        event.event_id = legacyEventId(key, occurrence);
+      }
+      events.push(event);
+    } catch (err) {
+      console.error(`Failed to parse event line in ${file}:`, line, err);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Events written before per-event IDs existed get one derived from their
+ * content and from which copy of the line they are within their file
+ *
+ * It stays stable as long as the line is not edited: repartitioning moves
+ * lines in order, and identical lines share a timestamp and so a file. The
+ * first copy keeps the plain content hash that older IDs used.
+ */
+function legacyEventId(line: string, occurrence: number): string {
+  const content = occurrence === 0 ? line : `${line}\n${occurrence}`;
+  return `e-${createHash('sha1').update(content).digest('hex').slice(0, 16)}`;
+}
+
+function emptyEntry(size: number, mtimeMs: number, tail: string): FileIndexEntry {
+  return { size, mtimeMs, tail, count: 0, types: {}, sources: {}, ids: [], refs: {} };
+}
+
+function addToEntry(entry: FileIndexEntry, event: BaseEvent): void {
+  entry.count++;
+  entry.types[event.type] = (entry.types[event.type] || 0) + 1;
+  entry.sources[event.source] = (entry.sources[event.source] || 0) + 1;
+
+  if (!entry.minTs || toInstant(event.ts) < toInstant(entry.minTs)) entry.minTs = event.ts;
+  if (!entry.maxTs || toInstant(event.ts) > toInstant(entry.maxTs)) entry.maxTs = event.ts;
+
+  if (event.id && !entry.ids.includes(event.id)) {
+    entry.ids.push(event.id);
+  }
+
+  for (const [field, value] of Object.entries(event.data || {})) {
+    if (field.endsWith('_id') && typeof value === 'string') {
+      const refs = entry.refs[field] || (entry.refs[field] = []);
+      if (!refs.includes(value)) refs.push(value);
+    }
+  }
+}
+
+function toRelative(file: string): string {
+  const rel = file.startsWith(LIFE_DIR) ? relative(LIFE_DIR, file) : file;
+  return rel.split(sep).join('/');
+}
@@ -2,110 +2,196 @@
  * Core event read/write functions
  */
 
-import { readFile, appendFile, readdir, mkdir } from 'fs/promises';
+import { appendFile, mkdir, readFile, writeFile, rename } from 'fs/promises';
+import { randomBytes } from 'crypto';
 import { existsSync } from 'fs';
-import { join, dirname } from 'path';
-import type { BaseEvent, IDPrefix, QueryFilters } from './types.js';
+import { join } from 'path';
+import { EVENTS_DIR, QUARANTINE_DIR, CACHE_DIR } from './paths.js';
+import { refreshIndex, refreshFile, saveIndex, findFiles, readIndexedFile, findIds } from './event-index.js';
+import { withLock } from './lock.js';
+import { assertValidEvent } from './schema.js';
+import { assertValidReferences } from './references.js';
+import { asOfTimestamp, dayKey, normalizeTimestamp, toInstant, compareTimestamps } from './dates.js';
+import type { ValidationIssue } from './schema.js';
+import type { BaseEvent, IDPrefix, QueryFilters, ReadOptions } from './types.js';
 
-// Path to the root of the life stream directory
-// Defaults to the repository root (two levels up from dist/tools/lib or three from tools/lib)
-const getLifeDir = () => {
-  if (process.env.LIFE_DIR) {
-    return process.env.LIFE_DIR;
-  }
-  const currentFile = import.meta.url.replace('file://', '');
-  // If we're in dist/tools/lib, go up 3 levels
-  // If we're in tools/lib, go up 2 levels
-  const libDir = dirname(currentFile);
-  const toolsDir = dirname(libDir);
-  const rootDir = dirname(toolsDir);
+const RESERVATIONS_FILE = join(CACHE_DIR, 'id-reservations.json');
 
-  // Check if we're in dist/ and need to go up one more level
-  if (rootDir.endsWith('dist')) {
-    return dirname(rootDir);
-  }
-  return rootDir;
-};
+// Event types that bring a new entity into existence under their ID
+export const CREATION_TYPES = ['task.created', 'goal.set'];
 
-const LIFE_DIR = getLifeDir();
-const EVENTS_DIR = join(LIFE_DIR, 'events');
-const SYNCED_DIR = join(LIFE_DIR, 'synced');
+const appendListeners = new Set<(event: BaseEvent) => void>();
 
 /**
  * Read all events from the event stream
+ *
+ * Uses the on-disk index to open only the files that can contain matching
+ * events. Corrections and retractions are applied unless `raw` is set, and
+ * the meta events themselves are left out unless asked for by type. With
+ * `asOf`, the stream is replayed as it stood at that moment: later events,
+ * including later corrections and retractions, are ignored.
+ * Returned events are shared with the in-memory cache and must not be
+ * mutated.
  */
-export async function readEvents(filters?: QueryFilters): Promise<BaseEvent[]> {
+export async function readEvents(filters?: QueryFilters, options?: ReadOptions): Promise<BaseEvent[]> {
+  await refreshIndex();
+
+  const asOf = options?.asOf ? asOfTimestamp(options.asOf) : undefined;
+  if (asOf) {
+    filters = { ...filters, endDate: earliest(filters?.endDate, asOf) };
+  }
+
+  if (options?.raw) {
+    return scanEvents(filters);
+  }
+
+  const amendments = collectAmendments(await scanEvents({ eventType: 'event.', endDate: asOf }));
+  const wantsMeta = filters?.eventType?.startsWith('event') ?? false;
+
+  // A corrected timestamp can move an event into the requested date range,
+  // so widen the scan and apply the date filter after correcting
+  const scanFilters = amendments.movesTimestamps
+    ? { ...filters, startDate: undefined, endDate: undefined }
+    : filters;
+
   const events: BaseEvent[] = [];
+  for (const event of await scanEvents(scanFilters)) {
+    if (event.type.startsWith('event.') && !wantsMeta) continue;
+    if (amendments.retracted.has(event.event_id!)) continue;
+
+    const corrected = applyCorrections(event, amendments.corrections.get(event.event_id!));
+    if (matchesFilters(corrected, filters)) {
+      events.push(corrected);
+    }
+  }
 
-  // Read from events directory
-  await readEventsFromDir(EVENTS_DIR, events, filters);
+  if (amendments.movesTimestamps) {
+    events.sort((a, b) => compareTimestamps(a.ts, b.ts));
+  }
+
+  return events;
+}
+
+function earliest(a: string | undefined, b: string): string {
+  return a && toInstant(a) < toInstant(b) ? a : b;
+}
 
-  // Read from synced directories (strava, fitbit, etc.)
-  if (existsSync(SYNCED_DIR)) {
-    const syncedServices = await readdir(SYNCED_DIR, { withFileTypes: true });
-    for (const service of syncedServices) {
-      if (service.isDirectory()) {
-        await readEventsFromDir(join(SYNCED_DIR, service.name), events, filters);
+/**
+ * Read matching events straight from the indexed files
+ */
+async function scanEvents(filters?: QueryFilters): Promise<BaseEvent[]> {
+  const events: BaseEvent[] = [];
+  for (const file of findFiles(filters)) {
+    for (const event of await readIndexedFile(file)) {
+      if (matchesFilters(event, filters)) {
+        events.push(event);
       }
     }
   }
 
   // Sort by timestamp
-  events.sort((a, b) => a.ts.localeCompare(b.ts));
+  events.sort((a, b) => compareTimestamps(a.ts, b.ts));
 
   return events;
 }
 
+interface Amendments {
+  retracted: Set<string>;
+  corrections: Map<string, BaseEvent[]>;
+  movesTimestamps: boolean;
+}
+
 /**
- * Read events from a specific directory
+ * Index event.corrected / event.retracted events by the event they target
+ *
+ * A retraction can itself be retracted, which restores its target; the same
+ * goes for corrections.
  */
-async function readEventsFromDir(
-  dir: string,
-  events: BaseEvent[],
-  filters?: QueryFilters
-): Promise<void> {
-  if (!existsSync(dir)) {
-    return;
-  }
-
-  const files = await readdir(dir);
-  const jsonlFiles = files.filter(f => f.endsWith('.jsonl')).sort();
-
-  for (const file of jsonlFiles) {
-    const content = await readFile(join(dir, file), 'utf-8');
-    const lines = content.split('\n').filter(line => line.trim());
-
-    for (const line of lines) {
-      try {
-        const event = JSON.parse(line) as BaseEvent;
-
-        // Apply filters
-        if (filters?.eventType && !event.type.startsWith(filters.eventType)) {
-          continue;
-        }
-        if (filters?.startDate && event.ts < filters.startDate) {
-          continue;
-        }
-        if (filters?.endDate && event.ts > filters.endDate) {
-          continue;
-        }
-        if (filters?.source && event.source !== filters.source) {
-          continue;
-        }
-        if (filters?.id && event.id !== filters.id) {
-          continue;
-        }
+function collectAmendments(meta: BaseEvent[]): Amendments {
+  const retractedMeta = new Set(
+    meta.filter(e => e.type === 'event.retracted').map(e => e.data.target as string)
+  );
+  const effective = meta.filter(e => e.type !== 'event.retracted' || !retractedMeta.has(e.event_id!));
 
-        events.push(event);
-      } catch (err) {
-        console.error(`Failed to parse event line in ${file}:`, line, err);
+  const retracted = new Set<string>();
+  for (const event of effective) {
+    if (event.type === 'event.retracted') retracted.add(event.data.target);
+  }
+
+  const corrections = new Map<string, BaseEvent[]>();
+  let movesTimestamps = false;
+  for (const event of effective) {
+    if (event.type !== 'event.corrected' || retracted.has(event.event_id!)) continue;
+    const list = corrections.get(event.data.target) || [];
+    list.push(event);
+    corrections.set(event.data.target, list);
+    if (event.data.ts) movesTimestamps = true;
+  }
+
+  return { retracted, corrections, movesTimestamps };
+}
+
+/**
+ * Apply corrections in order, returning a new event object
+ */
+function applyCorrections(event: BaseEvent, corrections?: BaseEvent[]): BaseEvent {
+  if (!corrections || corrections.length === 0) {
+    return event;
+  }
+
+  const corrected: BaseEvent = { ...event, data: { ...event.data }, corrected_by: [] };
+  for (const correction of corrections) {
+    if (correction.data.ts) {
+      corrected.ts = correction.data.ts;
+    }
+    for (const [field, value] of Object.entries(correction.data.changes || {})) {
+      if (value === null) {
+        delete corrected.data[field];
+      } else {
+        corrected.data[field] = value;
       }
     }
+    corrected.corrected_by!.push(correction.event_id!);
+  }
+
+  return corrected;
+}
+
+/**
+ * Check whether a single event matches the query filters
+ *
+ * Dates are compared by instant; a bare start or end date means the start
+ * of that day in the home timezone.
+ */
+export function matchesFilters(event: BaseEvent, filters?: QueryFilters): boolean {
+  if (filters?.eventType && !event.type.startsWith(filters.eventType)) {
+    return false;
+  }
+  if (filters?.startDate && toInstant(event.ts) < toInstant(filters.startDate)) {
+    return false;
+  }
+  if (filters?.endDate && toInstant(event.ts) > toInstant(filters.endDate)) {
+    return false;
   }
+  if (filters?.source && event.source !== filters.source) {
+    return false;
+  }
+  if (filters?.id && event.id !== filters.id) {
+    return false;
+  }
+  return true;
 }
 
 /**
  * Log an event to the stream
+ *
+ * The timestamp is normalized to ISO 8601 with the home timezone's offset.
+ * Throws an EventValidationError if the event does not match its schema, or
+ * if the tasks, meetings and goals it refers to do not exist or are in the
+ * wrong state (see checkReferences); `force` skips the latter for backfills.
+ * A `precondition` runs under the same lock just before the append, so a
+ * check of the stream cannot race another writer; throw from it to refuse
+ * the event.
  */
 export async function logEvent(
   eventType: string,
@@ -114,13 +200,17 @@ export async function logEvent(
     id?: string;
     source?: string;
     timestamp?: string;
+    force?: boolean;
+    precondition?: () => Promise<void>;
   }
 ): Promise<BaseEvent> {
-  const now = options?.timestamp || new Date().toISOString();
+  const timestamp = options?.timestamp || new Date();
   const event: BaseEvent = {
-    ts: now,
+    // An unparseable timestamp is left as is for validation to report
+    ts: typeof timestamp === 'string' && isNaN(toInstant(timestamp)) ? timestamp : normalizeTimestamp(timestamp),
     type: eventType,
     source: options?.source || 'manual',
+    event_id: generateEventId(),
     data,
   };
 
@@ -128,38 +218,120 @@ export async function logEvent(
     event.id = options.id;
   }
 
+  assertValidEvent(event);
+
   // Determine the file to write to (YYYY-MM.jsonl)
-  const date = new Date(now);
-  const yearMonth = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-  const filename = join(EVENTS_DIR, `${yearMonth}.jsonl`);
+  const filename = join(EVENTS_DIR, `${partitionFor(event.ts)}.jsonl`);
 
   // Ensure events directory exists
   if (!existsSync(EVENTS_DIR)) {
     await mkdir(EVENTS_DIR, { recursive: true });
   }
 
-  // Append the event
-  await appendFile(filename, JSON.stringify(event) + '\n', 'utf-8');
+  await withLock('stream', async () => {
+    // Creating an entity under an ID that is already taken would merge two
+    // unrelated histories, so refuse it while we hold the lock
+    if (event.id && CREATION_TYPES.includes(event.type)) {
+      await refreshIndex();
+      if (findIds(event.id).includes(event.id)) {
+        throw new Error(`Duplicate ID: ${event.id} already exists. Use generateId() to allocate a fresh one.`);
+      }
+    }
+    // Likewise check the state of referenced entities before another
+    // writer can change it
+    if (!options?.force) {
+      await assertValidReferences(event);
+    }
+    await options?.precondition?.();
 
+    // Append the event
+    await appendFile(filename, JSON.stringify(event) + '\n', 'utf-8');
+    await refreshFile(filename);
+    await saveIndex();
+  });
+
+  notifyEventAppended(event);
   return event;
 }
 
+/**
+ * Call a function whenever this process appends an event to the stream
+ *
+ * Covers logged and synced events alike. Returns a function that removes
+ * the listener.
+ */
+export function onEventAppended(listener: (event: BaseEvent) => void): () => void {
+  appendListeners.add(listener);
+  return () => appendListeners.delete(listener);
+}
+
+/**
+ * Tell the listeners about an event that was just appended
+ */
+export function notifyEventAppended(event: BaseEvent): void {
+  for (const listener of appendListeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      // The event is already written, so a failing listener must not fail the write
+      console.error('Error in event listener:', error);
+    }
+  }
+}
+
+/**
+ * Set aside an event that failed validation
+ *
+ * Quarantined events are written to quarantine/YYYY-MM.jsonl together with
+ * the validation issues, so they can be inspected and re-logged by hand.
+ * They are never read back into the stream.
+ */
+export async function quarantineEvent(
+  event: BaseEvent,
+  issues: ValidationIssue[],
+  origin: string
+): Promise<void> {
+  const now = new Date();
+  const filename = join(QUARANTINE_DIR, `${partitionFor(now)}.jsonl`);
+
+  await mkdir(QUARANTINE_DIR, { recursive: true });
+
+  const record = {
+    quarantined_at: now.toISOString(),
+    origin,
+    issues,
+    event,
+  };
+  await appendFile(filename, JSON.stringify(record) + '\n', 'utf-8');
+}
+
+/**
+ * Get the monthly partition (YYYY-MM) that an event belongs in
+ *
+ * Every writer files an event under the month of its day in the home
+ * timezone, so an event near midnight lands in the same file as the rest
+ * of its day.
+ */
+export function partitionFor(ts: string | Date): string {
+  return dayKey(ts).slice(0, 7);
+}
+
+/**
+ * Generate a unique ID for a single event
+ * Format: e-{time}{random} (e.g., e-mk9x2c1a3f9b2e4d)
+ */
+export function generateEventId(): string {
+  return `e-${Date.now().toString(36)}${randomBytes(4).toString('hex')}`;
+}
+
 /**
  * Generate an ID for an entity
  * Format: {prefix}-YYYYMMDD-NNN (e.g., t-20260112-001)
  */
 export async function generateId(prefix: IDPrefix): Promise<string> {
-  const today = new Date();
-  const dateStr = today.toISOString().slice(0, 10).replace(/-/g, ''); // YYYYMMDD
+  const dateStr = dayKey(new Date()).replace(/-/g, ''); // YYYYMMDD in the home timezone
 
-  // Count existing IDs for today
-  const events = await readEvents();
-  const existingIds = events
-    .filter(e => e.id?.startsWith(`${prefix}-${dateStr}`))
-    .map(e => e.id!);
-
-  const nextNum = existingIds.length + 1;
-  return `${prefix}-${dateStr}-${String(nextNum).padStart(3, '0')}`;
+  return allocateId(`${prefix}-${dateStr}`);
 }
 
 /**
@@ -167,14 +339,60 @@ export async function generateId(prefix: IDPrefix): Promise<string> {
  * Format: g-YYYY-NNN (e.g., g-2026-001)
  */
 export async function generateGoalId(): Promise<string> {
-  const year = new Date().getFullYear();
+  const year = dayKey(new Date()).slice(0, 4);
+
+  return allocateId(`g-${year}`);
+}
+
+/**
+ * Allocate the next free ID in a series (e.g. "t-20260112")
+ *
+ * Takes the highest existing suffix rather than counting IDs, so gaps in the
+ * series are harmless. Allocations are recorded in .cache/id-reservations.json
+ * under the stream lock, so two writers never receive the same ID even if
+ * neither has logged its event yet.
+ */
+async function allocateId(series: string): Promise<string> {
+  return withLock('stream', async () => {
+    await refreshIndex();
 
-  // Count existing goal IDs for this year
-  const events = await readEvents({ eventType: 'goal' });
-  const existingIds = events
-    .filter(e => e.id?.startsWith(`g-${year}`))
-    .map(e => e.id!);
+    let highest = 0;
+    for (const id of findIds(`${series}-`)) {
+      const suffix = Number(id.slice(series.length + 1));
+      if (Number.isInteger(suffix) && suffix > highest) {
+        highest = suffix;
+      }
+    }
+
+    const reservations = await readReservations();
+    const next = Math.max(highest, reservations[series] || 0) + 1;
+
+    // Only the current series for each prefix matters; drop the old ones
+    const prefix = series.split('-')[0];
+    for (const key of Object.keys(reservations)) {
+      if (key.startsWith(`${prefix}-`) && key !== series) {
+        delete reservations[key];
+      }
+    }
+    reservations[series] = next;
+    await writeReservations(reservations);
+
+    return `${series}-${String(next).padStart(3, '0')}`;
+  });
+}
+
+async function readReservations(): Promise<Record<string, number>> {
+  try {
+    return JSON.parse(await readFile(RESERVATIONS_FILE, 'utf-8'));
+  } catch (err: any) {
+    if (err.code === 'ENOENT' || err instanceof SyntaxError) return {};
+    throw err;
+  }
+}
 
-  const nextNum = existingIds.length + 1;
-  return `g-${year}-${String(nextNum).padStart(3, '0')}`;
+async function writeReservations(reservations: Record<string, number>): Promise<void> {
+  await mkdir(CACHE_DIR, { recursive: true });
+  const tmp = `${RESERVATIONS_FILE}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(reservations), 'utf-8');
+  await rename(tmp, RESERVATIONS_FILE);
 }
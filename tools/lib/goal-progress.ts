@@ -0,0 +1,141 @@
+/**
+ * Goal progress - measure goals against the work, tasks and exercise in the stream
+ */
+
+import { readEvents } from './events.js';
+import { getWorkSessions } from './work.js';
+import { dayKey, asOfTimestamp, startOfDay, addDays } from './dates.js';
+import type { BaseEvent, Goal, GoalLinks, GoalPace, GoalProgress, Task, WorkSession } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the expected progress needed to count as on track / at risk
+const ON_TRACK_RATIO = 0.95;
+const AT_RISK_RATIO = 0.8;
+
+/**
+ * Attach progress, links and a derived status to goals
+ *
+ * An event counts toward a measurable goal if it carries the goal's
+ * `goal_id`, or if the goal has `filters` and the event has every field
+ * given there (e.g. `{"activity": "run"}` counts all runs). Only events
+ * from the goal's start date up to its target date count. Pass `asOf` to
+ * measure progress as it stood at that moment.
+ */
+export async function attachGoalProgress(goals: Goal[], tasks: Task[], asOf?: string): Promise<Goal[]> {
+  if (goals.length === 0) return goals;
+
+  const now = asOf ? new Date(asOfTimestamp(asOf)) : new Date();
+  const exercise = await readEvents({ eventType: 'exercise.completed' }, { asOf });
+  const sessions = (await getWorkSessions({ asOf })).filter(s => s.status === 'complete');
+
+  for (const goal of goals) {
+    goal.links = linksFor(goal, tasks, exercise, sessions);
+
+    if (goal.metric && goal.target_value !== undefined) {
+      goal.progress = measure(goal, tasks, exercise, sessions, now);
+      if (goal.status === 'active') {
+        goal.derived_status = paceStatus(goal.progress);
+      }
+    }
+  }
+
+  return goals;
+}
+
+function linksFor(goal: Goal, tasks: Task[], exercise: BaseEvent[], sessions: WorkSession[]): GoalLinks {
+  const linkedTasks = tasks.filter(t => t.goal_id === goal.id);
+  return {
+    tasks: linkedTasks.length,
+    tasks_completed: linkedTasks.filter(t => t.status === 'completed').length,
+    work_hours: round(sessions
+      .filter(s => s.goal_id === goal.id)
+      .reduce((sum, s) => sum + s.duration_min, 0) / 60),
+    exercise_sessions: exercise.filter(e => e.data.goal_id === goal.id).length,
+  };
+}
+
+function measure(
+  goal: Goal,
+  tasks: Task[],
+  exercise: BaseEvent[],
+  sessions: WorkSession[],
+  now: Date
+): GoalProgress {
+  const start = goal.start_date!;
+  const end = goal.target_date;
+  const inWindow = (ts: string | undefined) => {
+    if (!ts) return false;
+    const day = dayKey(ts);
+    return day >= start && (!end || day <= end);
+  };
+  const counts = (item: Record<string, any>) =>
+    item.goal_id === goal.id || (goal.filters !== undefined && matches(item, goal.filters));
+
+  let current = 0;
+  switch (goal.metric) {
+    case 'distance_km':
+    case 'exercise_min':
+    case 'exercise_sessions':
+      for (const event of exercise) {
+        if (!inWindow(event.ts) || !counts(event.data)) continue;
+        if (goal.metric === 'distance_km') current += event.data.distance_km || 0;
+        else if (goal.metric === 'exercise_min') current += event.data.duration_min || 0;
+        else current += 1;
+      }
+      break;
+    case 'work_hours':
+      current = sessions
+        .filter(s => inWindow(s.start) && counts(s))
+        .reduce((sum, s) => sum + s.duration_min, 0) / 60;
+      break;
+    case 'tasks_completed':
+      current = tasks.filter(t => t.status === 'completed' && inWindow(t.completed_at) && counts(t)).length;
+      break;
+  }
+
+  const target = goal.target_value!;
+  const progress: GoalProgress = {
+    metric: goal.metric!,
+    current: round(current),
+    target_value: target,
+    percent: target > 0 ? Math.round(current / target * 100) : 100,
+  };
+  if (goal.unit) progress.unit = goal.unit;
+
+  if (end) {
+    const startMs = startOfDay(start).getTime();
+    const endMs = startOfDay(addDays(end, 1)).getTime();
+    const elapsed = Math.min(Math.max(now.getTime() - startMs, 0), endMs - startMs);
+    const total = Math.max(endMs - startMs, DAY_MS);
+    progress.expected = round(target * elapsed / total);
+  }
+
+  return progress;
+}
+
+/**
+ * Derive on_track / at_risk / behind from progress against a steady pace
+ *
+ * Without a target date there is no pace to compare with, so only a goal
+ * that has reached its target is on track.
+ */
+function paceStatus(progress: GoalProgress): GoalPace | undefined {
+  if (progress.current >= progress.target_value) return 'on_track';
+  if (progress.expected === undefined) return undefined;
+  if (progress.expected === 0) return 'on_track';
+
+  const ratio = progress.current / progress.expected;
+  if (ratio >= ON_TRACK_RATIO) return 'on_track';
+  if (ratio >= AT_RISK_RATIO) return 'at_risk';
+  return 'behind';
+}
+
+function matches(item: Record<string, any>, filters: Record<string, string | number | boolean>): boolean {
+  return Object.entries(filters).every(([field, value]) => item[field] === value);
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,254 @@
+/**
+ * Health projection - weight, sleep and blood pressure trends
+ */
+
+import { readEvents } from './events.js';
+import { dayKey, weekKey, addDays, asOfTimestamp } from './dates.js';
+import type {
+  BaseEvent,
+  BloodPressureCategory,
+  BloodPressureReading,
+  HealthDay,
+  HealthWeek,
+  HealthSummary,
+  HealthTrends,
+} from './types.js';
+
+const DEFAULT_RANGE_DAYS = 30;
+const WEIGHT_WINDOW_DAYS = 7;
+const KG_PER_LB = 0.45359237;
+
+interface SleepNight {
+  day: string;
+  duration_min: number;
+  deep_min?: number;
+  rem_min?: number;
+}
+
+interface WeightReading {
+  day: string;
+  kg: number;
+}
+
+/**
+ * Get daily and weekly health series for a date range
+ *
+ * Dates are local calendar days (YYYY-MM-DD, or a timestamp whose day is
+ * used). The range defaults to the last 30 days. Weights are converted to
+ * kg, and sleep is counted toward the day it ended. With `asOf`, the
+ * stream is replayed as it stood at that moment and the range ends there.
+ */
+export async function getHealthTrends(options?: {
+  startDate?: string;
+  endDate?: string;
+  asOf?: string;
+}): Promise<HealthTrends> {
+  const now = options?.asOf ? asOfTimestamp(options.asOf) : new Date();
+  const end = options?.endDate ? dayKey(options.endDate) : dayKey(now);
+  const start = options?.startDate ? dayKey(options.startDate) : addDays(end, -(DEFAULT_RANGE_DAYS - 1));
+
+  // Read a little before the range for the rolling weight average and for
+  // sleep that started the evening before
+  const events = await readEvents({
+    eventType: 'health',
+    startDate: addDays(start, -(WEIGHT_WINDOW_DAYS + 1)),
+    endDate: addDays(end, 1),
+  }, { asOf: options?.asOf });
+
+  const weights: WeightReading[] = [];
+  const nights: SleepNight[] = [];
+  const readings: BloodPressureReading[] = [];
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'health.weight': {
+        const kg = toKg(event);
+        if (kg !== undefined) weights.push({ day: dayKey(event.ts), kg });
+        break;
+      }
+      case 'health.sleep':
+        if (event.data.duration_min) nights.push(toSleepNight(event));
+        break;
+      case 'health.blood_pressure':
+        if (event.data.systolic && event.data.diastolic) {
+          readings.push({
+            ts: event.ts,
+            systolic: event.data.systolic,
+            diastolic: event.data.diastolic,
+            category: classifyBloodPressure(event.data.systolic, event.data.diastolic),
+          });
+        }
+        break;
+    }
+  }
+
+  const inRange = (day: string) => day >= start && day <= end;
+  const rangeWeights = weights.filter(w => inRange(w.day));
+  const rangeNights = nights.filter(n => inRange(n.day));
+  const rangeReadings = readings.filter(r => inRange(dayKey(r.ts)));
+
+  const days = buildDays(rangeWeights, rangeNights, rangeReadings, weights);
+  const weeks = buildWeeks(days, rangeWeights, rangeNights, rangeReadings);
+
+  const averaged = days.filter(d => d.weight_avg_7d !== undefined);
+  const weightStart = averaged[0]?.weight_avg_7d;
+  const weightEnd = averaged[averaged.length - 1]?.weight_avg_7d;
+
+  const summary: HealthSummary = {
+    weight_start: weightStart,
+    weight_end: weightEnd,
+    weight_change: weightStart !== undefined && weightEnd !== undefined
+      ? round(weightEnd - weightStart)
+      : undefined,
+    ...summarizeSleep(rangeNights),
+    ...summarizeBloodPressure(rangeReadings),
+  };
+
+  return {
+    start,
+    end,
+    summary,
+    days,
+    weeks,
+    out_of_range: rangeReadings.filter(r => r.category !== 'normal'),
+  };
+}
+
+/**
+ * Classify a blood pressure reading
+ *
+ * Follows the ACC/AHA bands: below 90/60 is low, below 120/80 is normal,
+ * 120-129 systolic with diastolic under 80 is elevated, anything higher is
+ * high.
+ */
+export function classifyBloodPressure(systolic: number, diastolic: number): BloodPressureCategory {
+  if (systolic >= 130 || diastolic >= 80) return 'high';
+  if (systolic < 90 || diastolic < 60) return 'low';
+  if (systolic >= 120) return 'elevated';
+  return 'normal';
+}
+
+function buildDays(
+  weights: WeightReading[],
+  nights: SleepNight[],
+  readings: BloodPressureReading[],
+  allWeights: WeightReading[]
+): HealthDay[] {
+  const days: Record<string, HealthDay> = {};
+  const dayFor = (date: string) => days[date] ||= { date, bp_readings: 0 };
+
+  for (const reading of weights) {
+    // The last reading of the day wins
+    dayFor(reading.day).weight_kg = reading.kg;
+  }
+
+  for (const night of nights) {
+    const day = dayFor(night.day);
+    day.sleep_min = (day.sleep_min || 0) + night.duration_min;
+    if (night.deep_min !== undefined) day.deep_min = (day.deep_min || 0) + night.deep_min;
+    if (night.rem_min !== undefined) day.rem_min = (day.rem_min || 0) + night.rem_min;
+  }
+
+  const bpByDay: Record<string, BloodPressureReading[]> = {};
+  for (const reading of readings) {
+    (bpByDay[dayKey(reading.ts)] ||= []).push(reading);
+  }
+  for (const [date, dayReadings] of Object.entries(bpByDay)) {
+    const day = dayFor(date);
+    day.systolic = round(mean(dayReadings.map(r => r.systolic)), 0);
+    day.diastolic = round(mean(dayReadings.map(r => r.diastolic)), 0);
+    day.bp_readings = dayReadings.length;
+  }
+
+  const sorted = Object.values(days).sort((a, b) => a.date.localeCompare(b.date));
+  for (const day of sorted) {
+    const windowStart = addDays(day.date, -(WEIGHT_WINDOW_DAYS - 1));
+    const window = allWeights.filter(w => w.day >= windowStart && w.day <= day.date);
+    if (window.length > 0) {
+      day.weight_avg_7d = round(mean(window.map(w => w.kg)));
+    }
+  }
+
+  return sorted;
+}
+
+function buildWeeks(
+  days: HealthDay[],
+  weights: WeightReading[],
+  nights: SleepNight[],
+  readings: BloodPressureReading[]
+): HealthWeek[] {
+  const weekKeys = [...new Set(days.map(d => weekKey(d.date)))];
+
+  return weekKeys.map(week => {
+    const weekWeights = weights.filter(w => weekKey(w.day) === week);
+    const weekReadings = readings.filter(r => weekKey(dayKey(r.ts)) === week);
+    const sleep = summarizeSleep(nights.filter(n => weekKey(n.day) === week));
+    const bp = summarizeBloodPressure(weekReadings);
+
+    return {
+      week,
+      weight_avg: weekWeights.length > 0 ? round(mean(weekWeights.map(w => w.kg))) : undefined,
+      weight_change: weekWeights.length > 1
+        ? round(weekWeights[weekWeights.length - 1].kg - weekWeights[0].kg)
+        : undefined,
+      sleep_avg_min: sleep.sleep_avg_min,
+      nights: sleep.nights,
+      deep_pct: sleep.deep_pct,
+      rem_pct: sleep.rem_pct,
+      systolic_avg: bp.systolic_avg,
+      diastolic_avg: bp.diastolic_avg,
+      bp_readings: bp.bp_readings,
+    };
+  });
+}
+
+/**
+ * Average sleep per night, and deep/REM share over nights with stage data
+ */
+function summarizeSleep(nights: SleepNight[]): Pick<HealthSummary, 'sleep_avg_min' | 'nights' | 'deep_pct' | 'rem_pct'> {
+  const staged = nights.filter(n => n.deep_min !== undefined && n.rem_min !== undefined);
+  const stagedMin = staged.reduce((sum, n) => sum + n.duration_min, 0);
+
+  return {
+    sleep_avg_min: nights.length > 0 ? round(mean(nights.map(n => n.duration_min)), 0) : undefined,
+    nights: nights.length,
+    deep_pct: stagedMin > 0 ? round(staged.reduce((sum, n) => sum + n.deep_min!, 0) / stagedMin * 100, 1) : undefined,
+    rem_pct: stagedMin > 0 ? round(staged.reduce((sum, n) => sum + n.rem_min!, 0) / stagedMin * 100, 1) : undefined,
+  };
+}
+
+function summarizeBloodPressure(readings: BloodPressureReading[]): Pick<HealthSummary, 'systolic_avg' | 'diastolic_avg' | 'bp_readings'> {
+  return {
+    systolic_avg: readings.length > 0 ? round(mean(readings.map(r => r.systolic)), 0) : undefined,
+    diastolic_avg: readings.length > 0 ? round(mean(readings.map(r => r.diastolic)), 0) : undefined,
+    bp_readings: readings.length,
+  };
+}
+
+function toKg(event: BaseEvent): number | undefined {
+  const value = event.data.value;
+  if (typeof value !== 'number') return undefined;
+  const unit = String(event.data.unit || 'kg').toLowerCase();
+  return unit === 'lb' || unit === 'lbs' ? round(value * KG_PER_LB) : value;
+}
+
+function toSleepNight(event: BaseEvent): SleepNight {
+  const duration: number = event.data.duration_min;
+  const ended = new Date(new Date(event.ts).getTime() + duration * 60_000);
+  return {
+    day: dayKey(ended),
+    duration_min: duration,
+    deep_min: event.data.deep_min,
+    rem_min: event.data.rem_min,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -5,7 +5,24 @@
  */
 
 export * from './types.js';
+export * from './schema.js';
 export * from './events.js';
 export * from './query.js';
+export * from './search.js';
+export * from './meetings.js';
+export * from './work.js';
+export * from './portfolio.js';
+export * from './health.js';
+export * from './mental.js';
+export * from './correlations.js';
+export * from './config.js';
+export * from './dates.js';
+export * from './periods.js';
 export * from './views.js';
 export * from './sync.js';
+export * from './integrity.js';
+export * from './corrections.js';
+export * from './references.js';
+export * from './resources.js';
+export * from './prompts.js';
+export * from './natural-dates.js';
@@ -0,0 +1,186 @@
+/**
+ * Integrity checks over the event stream
+ */
+
+import { readFile, writeFile, rename, unlink } from 'fs/promises';
+import { join, dirname } from 'path';
+import { readEvents, partitionFor, CREATION_TYPES } from './events.js';
+import { refreshIndex, findFiles } from './event-index.js';
+import { withLock } from './lock.js';
+import { toInstant } from './dates.js';
+import { LIFE_DIR } from './paths.js';
+import type { BaseEvent } from './types.js';
+
+export interface IdConflict {
+  id: string;
+  events: BaseEvent[]; // The conflicting creation events, oldest first
+  suggested_ids: string[]; // Replacement IDs for every event but the first
+}
+
+/**
+ * Find entity IDs that were created more than once
+ *
+ * Two task.created (or goal.set) events sharing an ID usually mean two
+ * writers raced on ID generation. The oldest event keeps the ID; the others
+ * get suggested replacements that are free in the same series.
+ */
+export async function findIdConflicts(): Promise<IdConflict[]> {
+  const events = await readEvents();
+
+  const creations: Record<string, BaseEvent[]> = {};
+  const taken = new Set<string>();
+  for (const event of events) {
+    if (!event.id) continue;
+    taken.add(event.id);
+    if (CREATION_TYPES.includes(event.type)) {
+      (creations[event.id] ||= []).push(event);
+    }
+  }
+
+  const conflicts: IdConflict[] = [];
+  for (const [id, created] of Object.entries(creations)) {
+    if (created.length < 2) continue;
+
+    const suggested: string[] = [];
+    for (let i = 1; i < created.length; i++) {
+      const replacement = nextFreeId(id, taken);
+      taken.add(replacement);
+      suggested.push(replacement);
+    }
+
+    conflicts.push({ id, events: created, suggested_ids: suggested });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Next unused ID in the same series as `id` (e.g. t-20260112-004)
+ */
+function nextFreeId(id: string, taken: Set<string>): string {
+  const series = id.slice(0, id.lastIndexOf('-'));
+  let highest = 0;
+  for (const other of taken) {
+    if (other.startsWith(`${series}-`)) {
+      const suffix = Number(other.slice(series.length + 1));
+      if (Number.isInteger(suffix) && suffix > highest) highest = suffix;
+    }
+  }
+  return `${series}-${String(highest + 1).padStart(3, '0')}`;
+}
+
+export interface PartitionMove {
+  from: string; // File relative to LIFE_DIR, e.g. events/2026-02.jsonl
+  to: string;
+  ts: string;
+  type: string;
+  event_id?: string; // Missing on events written before per-event IDs
+}
+
+/**
+ * Find events that sit in a different monthly file than partitionFor says
+ *
+ * Older writers picked the file by the local or UTC month of the machine,
+ * so events near midnight at the turn of a month may be in the wrong file.
+ */
+export async function findMisplacedEvents(): Promise<PartitionMove[]> {
+  await refreshIndex();
+  const plans = await planPartitions();
+  return plans.flatMap(plan => plan.moves.map(move => move.move));
+}
+
+/**
+ * Move misplaced events into the file they belong in
+ *
+ * Lines are moved byte for byte and appended to their new file, so event
+ * IDs derived from the line content of older events stay the same. Files
+ * left empty are removed.
+ */
+export async function repartitionEvents(): Promise<PartitionMove[]> {
+  return withLock('stream', async () => {
+    await refreshIndex();
+    const plans = await planPartitions();
+
+    const incoming: Record<string, string[]> = {};
+    for (const plan of plans) {
+      for (const { move, line } of plan.moves) {
+        (incoming[move.to] ||= []).push(line);
+      }
+    }
+
+    // Write the receiving files first, so no event is ever missing from disk
+    for (const [file, lines] of Object.entries(incoming)) {
+      const kept = plans.find(plan => plan.file === file)?.kept ?? await readLines(file);
+      await replaceFile(file, [...kept, ...lines]);
+    }
+    for (const plan of plans) {
+      if (plan.moves.length === 0 || incoming[plan.file]) continue;
+      if (plan.kept.length === 0) {
+        await unlink(join(LIFE_DIR, plan.file));
+      } else {
+        await replaceFile(plan.file, plan.kept);
+      }
+    }
+
+    await refreshIndex();
+    return plans.flatMap(plan => plan.moves.map(move => move.move));
+  });
+}
+
+interface PartitionPlan {
+  file: string;
+  kept: string[];
+  moves: { move: PartitionMove; line: string }[];
+}
+
+/**
+ * Sort the lines of every event file into those that stay and those that move
+ */
+async function planPartitions(): Promise<PartitionPlan[]> {
+  const plans: PartitionPlan[] = [];
+
+  for (const file of findFiles()) {
+    const plan: PartitionPlan = { file, kept: [], moves: [] };
+
+    for (const line of await readLines(file)) {
+      let event: BaseEvent | undefined;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        // Unparseable lines stay where they are
+      }
+
+      const valid = event && typeof event.ts === 'string' && !isNaN(toInstant(event.ts));
+      const to = valid ? `${dirname(file)}/${partitionFor(event!.ts)}.jsonl` : file;
+      if (to === file) {
+        plan.kept.push(line);
+      } else {
+        plan.moves.push({
+          move: { from: file, to, ts: event!.ts, type: event!.type, event_id: event!.event_id },
+          line,
+        });
+      }
+    }
+
+    plans.push(plan);
+  }
+
+  return plans;
+}
+
+async function readLines(file: string): Promise<string[]> {
+  try {
+    const content = await readFile(join(LIFE_DIR, file), 'utf-8');
+    return content.split('\n').filter(line => line.trim());
+  } catch (err: any) {
+    if (err.code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+async function replaceFile(file: string, lines: string[]): Promise<void> {
+  const abs = join(LIFE_DIR, file);
+  const tmp = `${abs}.${process.pid}.tmp`;
+  await writeFile(tmp, lines.map(line => `${line}\n`).join(''), 'utf-8');
+  await rename(tmp, abs);
+}
@@ -0,0 +1,80 @@
+/**
+ * Advisory file locks for writers sharing the life stream
+ *
+ * Several processes (the MCP server, CLI scripts, syncs) may append to the
+ * same files. A lock is a file created with O_EXCL under .cache/locks; its
+ * content records the owner so locks left behind by crashed processes can be
+ * detected and broken.
+ */
+
+import { open, readFile, unlink, mkdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { CACHE_DIR } from './paths.js';
+
+const LOCK_DIR = join(CACHE_DIR, 'locks');
+const RETRY_MS = 25;
+const TIMEOUT_MS = 10_000;
+const STALE_MS = 30_000;
+
+/**
+ * Run a function while holding the named lock
+ *
+ * Locks are not re-entrant: do not call withLock for the same name from
+ * inside the callback.
+ */
+export async function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const path = join(LOCK_DIR, `${name}.lock`);
+  await acquire(path);
+  try {
+    return await fn();
+  } finally {
+    await unlink(path).catch(() => {});
+  }
+}
+
+async function acquire(path: string): Promise<void> {
+  await mkdir(LOCK_DIR, { recursive: true });
+  const deadline = Date.now() + TIMEOUT_MS;
+
+  while (true) {
+    try {
+      const handle = await open(path, 'wx');
+      await handle.writeFile(JSON.stringify({ pid: process.pid, acquired_at: new Date().toISOString() }));
+      await handle.close();
+      return;
+    } catch (err: any) {
+      if (err.code !== 'EEXIST') throw err;
+    }
+
+    if (await isStale(path)) {
+      await unlink(path).catch(() => {});
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${path}. Delete it if no other life-stream process is running.`);
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_MS));
+  }
+}
+
+/**
+ * A lock is stale if its owner is gone or it has been held for too long
+ */
+async function isStale(path: string): Promise<boolean> {
+  try {
+    if (Date.now() - (await stat(path)).mtimeMs > STALE_MS) {
+      return true;
+    }
+
+    const owner = JSON.parse(await readFile(path, 'utf-8')) as { pid?: number };
+    if (owner.pid && owner.pid !== process.pid) {
+      process.kill(owner.pid, 0);
+    }
+    return false;
+  } catch (err: any) {
+    // ESRCH: the owning process is gone. Anything else (lock released or
+    // still being written) means we should simply try again.
+    return err.code === 'ESRCH';
+  }
+}
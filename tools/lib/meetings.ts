@@ -0,0 +1,173 @@
+/**
+ * Meeting projection - derive meeting state and follow-ups from events
+ */
+
+import { readEvents } from './events.js';
+import { getTasks } from './query.js';
+import { toInstant } from './dates.js';
+import type { Meeting, MeetingStatus, ActionItem, Task, TaskStatus } from './types.js';
+
+// Action items that still need doing
+const OPEN_TASK_STATUSES: (TaskStatus | 'unknown')[] = ['open', 'in_progress', 'blocked', 'unknown'];
+
+/**
+ * Get meetings, sorted by when they take place
+ *
+ * A meeting.scheduled event creates the meeting (a second one reschedules
+ * it), meeting.completed and meeting.cancelled close it. A meeting that was
+ * only ever logged as completed is picked up as well. With `asOf`, meetings
+ * and their action items are replayed as they stood at that moment.
+ */
+export async function getMeetings(options?: {
+  status?: MeetingStatus | MeetingStatus[];
+  with?: string; // Participant name, case-insensitive
+  startDate?: string;
+  endDate?: string;
+  asOf?: string;
+}): Promise<Meeting[]> {
+  const events = await readEvents({ eventType: 'meeting' }, { asOf: options?.asOf });
+  const tasks = await getTasks({ asOf: options?.asOf });
+  const tasksById: Record<string, Task> = {};
+  for (const task of tasks) {
+    tasksById[task.id] = task;
+  }
+
+  const meetings: Record<string, Meeting> = {};
+
+  for (const event of events) {
+    const id = event.id;
+    if (!id) continue;
+
+    let meeting = meetings[id];
+    if (!meeting) {
+      meeting = meetings[id] = {
+        id,
+        title: event.data.title || 'Untitled meeting',
+        status: 'scheduled',
+        with: [],
+        action_items: [],
+      };
+    }
+
+    // Every meeting event may carry updated details
+    if (event.data.title) meeting.title = event.data.title;
+    if (event.data.start) meeting.start = event.data.start;
+    if (event.data.duration_min !== undefined) meeting.duration_min = event.data.duration_min;
+    if (event.data.location) meeting.location = event.data.location;
+    if (event.data.notes) meeting.notes = event.data.notes;
+    if (event.data.energy) meeting.energy = event.data.energy;
+    for (const person of event.data.with || []) {
+      if (!meeting.with.includes(person)) meeting.with.push(person);
+    }
+    for (const taskId of event.data.action_items || []) {
+      if (!meeting.action_items.some(item => item.task_id === taskId)) {
+        meeting.action_items.push(resolveActionItem(taskId, tasksById));
+      }
+    }
+
+    switch (event.type) {
+      case 'meeting.scheduled':
+        meeting.status = 'scheduled';
+        meeting.scheduled_at = event.ts;
+        break;
+      case 'meeting.completed':
+        meeting.status = 'completed';
+        meeting.completed_at = event.ts;
+        meeting.start ??= event.ts;
+        break;
+      case 'meeting.cancelled':
+        meeting.status = 'cancelled';
+        meeting.cancelled_at = event.ts;
+        meeting.cancel_reason = event.data.reason;
+        break;
+    }
+  }
+
+  const statuses = options?.status
+    ? (Array.isArray(options.status) ? options.status : [options.status])
+    : null;
+  const person = options?.with?.toLowerCase();
+
+  return Object.values(meetings)
+    .filter(m => !statuses || statuses.includes(m.status))
+    .filter(m => !person || m.with.some(p => p.toLowerCase() === person))
+    .filter(m => !options?.startDate || (m.start !== undefined && toInstant(m.start) >= toInstant(options.startDate)))
+    .filter(m => !options?.endDate || (m.start !== undefined && toInstant(m.start) <= toInstant(options.endDate)))
+    .sort(compareMeetings);
+}
+
+/**
+ * Get scheduled meetings that have not happened yet
+ */
+export async function getUpcomingMeetings(now: Date = new Date()): Promise<Meeting[]> {
+  const scheduled = await getMeetings({ status: 'scheduled' });
+  return scheduled.filter(m => !m.start || new Date(m.start) >= now);
+}
+
+/**
+ * Get everything about the meetings with one person
+ */
+export async function getPersonHistory(person: string): Promise<{
+  person: string;
+  meetings: Meeting[];
+  last_met?: string;
+  next_meeting?: Meeting;
+  open_action_items: (ActionItem & { meeting_id: string })[];
+}> {
+  const meetings = await getMeetings({ with: person });
+  const now = new Date();
+
+  const lastMet = meetings
+    .filter(m => m.status === 'completed')
+    .map(m => m.start!)
+    .pop();
+  const nextMeeting = meetings.find(
+    m => m.status === 'scheduled' && (!m.start || new Date(m.start) >= now)
+  );
+
+  return {
+    person,
+    meetings,
+    last_met: lastMet,
+    next_meeting: nextMeeting,
+    open_action_items: getOpenActionItems(meetings),
+  };
+}
+
+/**
+ * Action items of the given meetings whose tasks are not finished
+ */
+export function getOpenActionItems(meetings: Meeting[]): (ActionItem & { meeting_id: string })[] {
+  return meetings.flatMap(meeting =>
+    meeting.action_items
+      .filter(item => OPEN_TASK_STATUSES.includes(item.status))
+      .map(item => ({ ...item, meeting_id: meeting.id }))
+  );
+}
+
+/**
+ * List everyone who appears in a meeting, most frequent first
+ */
+export function getPeople(meetings: Meeting[]): string[] {
+  const counts: Record<string, number> = {};
+  for (const meeting of meetings) {
+    for (const person of meeting.with) {
+      counts[person] = (counts[person] || 0) + 1;
+    }
+  }
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+}
+
+function resolveActionItem(taskId: string, tasksById: Record<string, Task>): ActionItem {
+  const task = tasksById[taskId];
+  return task
+    ? { task_id: taskId, title: task.title, status: task.status }
+    : { task_id: taskId, status: 'unknown' };
+}
+
+function compareMeetings(a: Meeting, b: Meeting): number {
+  if (!a.start && !b.start) return a.id.localeCompare(b.id);
+  if (!a.start) return 1;
+  if (!b.start) return -1;
+  return new Date(a.start).getTime() - new Date(b.start).getTime();
+}
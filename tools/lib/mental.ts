@@ -0,0 +1,177 @@
+/**
+ * Mental health projection - mood, energy and anxiety trends
+ */
+
+import { readEvents } from './events.js';
+import { dayKey, weekKey, addDays, asOfTimestamp } from './dates.js';
+import type {
+  BaseEvent,
+  MentalMetric,
+  MentalDay,
+  MentalWeek,
+  MentalSummary,
+  MentalTrends,
+  GratitudeEntry,
+  Reflection,
+} from './types.js';
+
+const DEFAULT_RANGE_DAYS = 30;
+const ROLLING_WINDOW_DAYS = 7;
+const EXTREME_DAYS = 3;
+
+const METRICS: MentalMetric[] = ['mood', 'energy', 'anxiety'];
+
+/**
+ * Get daily and weekly check-in series, extremes, gratitude and reflections
+ *
+ * Dates are local calendar days (YYYY-MM-DD, or a timestamp whose day is
+ * used); the range defaults to the last 30 days. Averages only include
+ * check-ins that reported the metric, so a check-in with just a mood does
+ * not pull anxiety toward 0. With `asOf`, the stream is replayed as it
+ * stood at that moment and the range ends there.
+ */
+export async function getMentalTrends(options?: {
+  startDate?: string;
+  endDate?: string;
+  asOf?: string;
+}): Promise<MentalTrends> {
+  const now = options?.asOf ? asOfTimestamp(options.asOf) : new Date();
+  const end = options?.endDate ? dayKey(options.endDate) : dayKey(now);
+  const start = options?.startDate ? dayKey(options.startDate) : addDays(end, -(DEFAULT_RANGE_DAYS - 1));
+
+  // Read the week before the range as well for the rolling averages
+  const events = await readEvents({
+    eventType: 'mental',
+    startDate: addDays(start, -ROLLING_WINDOW_DAYS),
+    endDate: addDays(end, 1),
+  }, { asOf: options?.asOf });
+
+  const inRange = (event: BaseEvent) => {
+    const day = dayKey(event.ts);
+    return day >= start && day <= end;
+  };
+
+  const checkins = events.filter(e => e.type === 'mental.checkin');
+  const allDays = buildDays(checkins);
+  const days = allDays.filter(d => d.date >= start && d.date <= end);
+  const rangeCheckins = checkins.filter(inRange);
+
+  const gratitude: GratitudeEntry[] = events
+    .filter(e => e.type === 'mental.gratitude' && inRange(e) && Array.isArray(e.data.items))
+    .map(e => ({ ts: e.ts, items: e.data.items }));
+
+  const reflections: Reflection[] = events
+    .filter(e => e.type === 'mental.reflection' && inRange(e) && e.data.thought)
+    .map(e => {
+      const reflection: Reflection = { ts: e.ts, thought: e.data.thought };
+      if (e.data.trigger) reflection.trigger = e.data.trigger;
+      if (e.data.reframe) reflection.reframe = e.data.reframe;
+      return reflection;
+    });
+
+  const byMood = days
+    .filter(d => d.mood !== undefined)
+    .sort((a, b) => a.mood! - b.mood! || a.date.localeCompare(b.date));
+
+  return {
+    start,
+    end,
+    summary: summarize(rangeCheckins, days),
+    days,
+    weeks: buildWeeks(rangeCheckins),
+    lowest_days: byMood.slice(0, EXTREME_DAYS),
+    highest_days: byMood.slice(-EXTREME_DAYS).reverse(),
+    gratitude,
+    reflections,
+  };
+}
+
+/**
+ * Average a metric over the check-ins that reported it
+ */
+export function averageMetric(checkins: BaseEvent[], metric: MentalMetric): number | undefined {
+  const values = checkins
+    .map(e => e.data[metric])
+    .filter((v): v is number => typeof v === 'number');
+  return values.length > 0 ? round(mean(values)) : undefined;
+}
+
+function buildDays(checkins: BaseEvent[]): MentalDay[] {
+  const byDay: Record<string, BaseEvent[]> = {};
+  for (const event of checkins) {
+    (byDay[dayKey(event.ts)] ||= []).push(event);
+  }
+
+  const days: MentalDay[] = Object.entries(byDay)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, events]) => {
+      const day: MentalDay = {
+        date,
+        checkins: events.length,
+        notes: events.map(e => e.data.notes).filter((n): n is string => !!n),
+      };
+      for (const metric of METRICS) {
+        const value = averageMetric(events, metric);
+        if (value !== undefined) day[metric] = value;
+      }
+      return day;
+    });
+
+  for (const day of days) {
+    const windowStart = addDays(day.date, -(ROLLING_WINDOW_DAYS - 1));
+    const window = days.filter(d => d.date >= windowStart && d.date <= day.date);
+    for (const metric of METRICS) {
+      const values = window
+        .map(d => d[metric])
+        .filter((v): v is number => v !== undefined);
+      if (values.length > 0) {
+        day[`${metric}_avg_7d`] = round(mean(values));
+      }
+    }
+  }
+
+  return days;
+}
+
+function buildWeeks(checkins: BaseEvent[]): MentalWeek[] {
+  const byWeek: Record<string, BaseEvent[]> = {};
+  for (const event of checkins) {
+    (byWeek[weekKey(dayKey(event.ts))] ||= []).push(event);
+  }
+
+  return Object.entries(byWeek)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, events]) => ({
+      week,
+      mood_avg: averageMetric(events, 'mood'),
+      energy_avg: averageMetric(events, 'energy'),
+      anxiety_avg: averageMetric(events, 'anxiety'),
+      checkins: events.length,
+    }));
+}
+
+function summarize(checkins: BaseEvent[], days: MentalDay[]): MentalSummary {
+  const summary: MentalSummary = { checkins: checkins.length };
+
+  for (const metric of METRICS) {
+    summary[`${metric}_avg`] = averageMetric(checkins, metric);
+
+    const rolling = days
+      .map(d => d[`${metric}_avg_7d`])
+      .filter((v): v is number => v !== undefined);
+    if (rolling.length > 1) {
+      summary[`${metric}_change`] = round(rolling[rolling.length - 1] - rolling[0]);
+    }
+  }
+
+  return summary;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
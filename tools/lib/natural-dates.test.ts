@@ -0,0 +1,80 @@
+/**
+ * Tests for natural-language dates, times and durations
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// The home timezone is read when the library is loaded
+process.env.LIFE_TZ = 'Europe/Oslo';
+const { parseDate, parseWhen, parseAsOf, parseDuration } = await import('./natural-dates.js');
+
+// Thursday 26 March 2026, three days before summer time starts in Oslo
+const now = new Date('2026-03-26T10:00:00+01:00');
+
+test('weekday names are the coming ones, or the last ones looking back', () => {
+  assert.equal(parseDate('Friday', { now }), '2026-03-27');
+  assert.equal(parseDate('by Friday', { now }), '2026-03-27');
+  assert.equal(parseDate('mon', { now }), '2026-03-30');
+  assert.equal(parseDate('Thursday', { now }), '2026-03-26');
+  assert.equal(parseDate('Friday', { now, direction: 'past' }), '2026-03-20');
+  assert.equal(parseWhen('fredag kl 9', { now }).ts, '2026-03-20T09:00:00.000+01:00');
+});
+
+test('next and last skip today', () => {
+  assert.equal(parseDate('next Thursday', { now }), '2026-04-02');
+  assert.equal(parseDate('last Thursday', { now }), '2026-03-19');
+  assert.equal(parseDate('next friday', { now }), '2026-03-27');
+  assert.equal(parseDate('last friday', { now }), '2026-03-20');
+  assert.equal(parseDate('next week', { now }), '2026-03-30');
+  assert.equal(parseDate('last month', { now }), '2026-02-01');
+});
+
+test('Norwegian forms', () => {
+  assert.equal(parseDate('fredag', { now }), '2026-03-27');
+  assert.equal(parseDate('på mandag', { now }), '2026-03-30');
+  assert.equal(parseDate('neste torsdag', { now }), '2026-04-02');
+  assert.equal(parseDate('forrige fredag', { now }), '2026-03-20');
+  assert.equal(parseDate('i morgen', { now }), '2026-03-27');
+  assert.equal(parseDate('i overmorgen', { now }), '2026-03-28');
+  assert.equal(parseDate('om to uker', { now }), '2026-04-09');
+  assert.equal(parseDate('slutten av måneden', { now }), '2026-03-31');
+  assert.equal(parseDate('3. april', { now }), '2026-04-03');
+  assert.equal(parseDate('23.10', { now }), '2026-10-23');
+  assert.equal(parseWhen('i går kveld', { now }).ts, '2026-03-25T19:00:00.000+01:00');
+  assert.equal(parseWhen('for 2 timer siden', { now }).ts, '2026-03-26T08:00:00.000+01:00');
+  assert.equal(parseWhen('kl 14.30', { now }).ts, '2026-03-26T14:30:00.000+01:00');
+});
+
+test('days are counted in the home timezone across DST changes', () => {
+  // Summer time starts at 02:00 on Sunday 29 March
+  assert.equal(parseDate('i morgen', { now: new Date('2026-03-28T23:30:00+01:00') }), '2026-03-29');
+  assert.equal(parseWhen('i går kl 12', { now: new Date('2026-03-30T09:00:00+02:00') }).ts, '2026-03-29T12:00:00.000+02:00');
+  assert.equal(parseWhen('2 hours ago', { now: new Date('2026-03-29T03:30:00+02:00') }).ts, '2026-03-29T00:30:00.000+01:00');
+  assert.equal(parseAsOf('2026-03-29', { now }), '2026-03-29T21:59:59.999Z');
+
+  // Winter time starts at 03:00 on Sunday 25 October
+  const monday = new Date('2026-10-26T09:00:00+01:00');
+  assert.equal(parseWhen('yesterday 12:00', { now: monday }).ts, '2026-10-25T12:00:00.000+01:00');
+  assert.equal(parseWhen('3 hours ago', { now: new Date('2026-10-25T03:30:00+01:00') }).ts, '2026-10-25T01:30:00.000+02:00');
+  assert.equal(parseAsOf('i går', { now: monday }), '2026-10-25T22:59:59.999Z');
+});
+
+test('durations', () => {
+  assert.equal(parseDuration('90'), 90);
+  assert.equal(parseDuration('45 min'), 45);
+  assert.equal(parseDuration('1h 30m'), 90);
+  assert.equal(parseDuration('1h30'), 90);
+  assert.equal(parseDuration('1h30m'), 90);
+  assert.equal(parseDuration('1t30'), 90);
+  assert.equal(parseDuration('1,5 timer'), 90);
+  assert.equal(parseDuration('to timer'), 120);
+  assert.equal(parseDuration('half an hour'), 30);
+  assert.throws(() => parseDuration('2 days'), /Invalid duration/);
+  assert.deepEqual(parseWhen('yesterday 18:00 1h30', { now }), { ts: '2026-03-25T18:00:00.000+01:00', duration_min: 90 });
+});
+
+test('unknown words are rejected', () => {
+  assert.throws(() => parseDate('someday', { now }), /Could not understand "someday"/);
+  assert.throws(() => parseDate('monday tomorrow', { now }), /names two different days/);
+});
@@ -0,0 +1,363 @@
+/**
+ * Natural-language dates, times and durations, in English and Norwegian
+ *
+ * "by Friday", "next Tuesday 14:00", "yesterday evening 30 min", "i går
+ * kveld", "om to uker", "for 2 timer siden". Days are counted in the home
+ * timezone (LIFE_TZ), and ISO 8601 input is passed through unchanged.
+ *
+ * Dates written with numbers are read day first (23.10, 23/10), and
+ * "HH.MM" is only a time after "kl", since 14.05 could be either.
+ */
+
+import { dayKey, addDays, isoWeekday, normalizeTimestamp, zonedTimestamp, asOfTimestamp, toInstant } from './dates.js';
+import type { ParsedWhen, ParseDateOptions } from './types.js';
+
+type Unit = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+const UNITS: Record<string, Unit> = {
+  m: 'minute', min: 'minute', mins: 'minute', minute: 'minute', minutes: 'minute', minutt: 'minute', minutter: 'minute',
+  h: 'hour', hr: 'hour', hrs: 'hour', hour: 'hour', hours: 'hour', t: 'hour', time: 'hour', timer: 'hour',
+  d: 'day', day: 'day', days: 'day', dag: 'day', dager: 'day', døgn: 'day',
+  w: 'week', wk: 'week', week: 'week', weeks: 'week', uke: 'week', uker: 'week',
+  month: 'month', months: 'month', måned: 'month', måneder: 'month', mnd: 'month',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, en: 1, ett: 1, ei: 1,
+  two: 2, to: 2, three: 3, tre: 3, four: 4, fire: 4, five: 5, fem: 5,
+  six: 6, seks: 6, seven: 7, sju: 7, syv: 7, eight: 8, åtte: 8, nine: 9, ni: 9, ten: 10, ti: 10,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  monday: 1, mon: 1, mandag: 1,
+  tuesday: 2, tue: 2, tues: 2, tirsdag: 2,
+  wednesday: 3, wed: 3, onsdag: 3,
+  thursday: 4, thu: 4, thurs: 4, torsdag: 4,
+  friday: 5, fri: 5, fredag: 5,
+  saturday: 6, sat: 6, lørdag: 6,
+  sunday: 7, sun: 7, søndag: 7,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 1, januar: 1, jan: 1,
+  february: 2, februar: 2, feb: 2,
+  march: 3, mars: 3, mar: 3,
+  april: 4, apr: 4,
+  may: 5, mai: 5,
+  june: 6, juni: 6, jun: 6,
+  july: 7, juli: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sept: 9, sep: 9,
+  october: 10, oktober: 10, oct: 10, okt: 10,
+  november: 11, nov: 11,
+  december: 12, desember: 12, dec: 12, des: 12,
+};
+
+// Days relative to today, longest phrases first
+const DAY_WORDS: [string, number][] = [
+  ['day after tomorrow', 2], ['i overmorgen', 2], ['overmorgen', 2],
+  ['day before yesterday', -2], ['i forgårs', -2], ['forgårs', -2],
+  ['tomorrow', 1], ['i morgen', 1], ['imorgen', 1],
+  ['yesterday', -1], ['i går', -1], ['igår', -1],
+  ['today', 0], ['i dag', 0], ['idag', 0],
+];
+
+// Rough times for parts of the day; "i kveld" and "tonight" are today
+const TIMES_OF_DAY: [string, string][] = [
+  ['morning', '08:00'], ['morgenen', '08:00'], ['morges', '08:00'], ['morgen', '08:00'],
+  ['tidlig', '07:00'],
+  ['formiddagen', '10:00'], ['formiddag', '10:00'],
+  ['noon', '12:00'], ['midday', '12:00'], ['lunch', '12:00'], ['lunsj', '12:00'],
+  ['afternoon', '15:00'], ['ettermiddagen', '15:00'], ['ettermiddag', '15:00'],
+  ['evening', '19:00'], ['tonight', '19:00'], ['kvelden', '19:00'], ['kveld', '19:00'],
+  ['night', '23:00'], ['natten', '23:00'], ['natta', '23:00'], ['natt', '23:00'],
+];
+
+// Words that add nothing once the rest is understood
+const FILLERS = [
+  'by', 'on', 'at', 'the', 'of', 'and', 'for', 'until', 'before', 'around', 'about',
+  'innen', 'på', 'til', 'den', 'og', 'før', 'rundt', 'ca', 'cirka', 'i', 'om',
+];
+
+// Digits may run into their unit ("30min"), number words may not ("end")
+const NUMBER = `\\d+(?:[.,]\\d+)? ?|(?:${Object.keys(NUMBER_WORDS).join('|')}) `;
+const UNIT = Object.keys(UNITS).sort((a, b) => b.length - a.length).join('|');
+const AMOUNT = `(?:${NUMBER})(?:${UNIT})`;
+const AMOUNTS = `${AMOUNT}(?:(?: and| og)? ${AMOUNT})*`;
+const MONTH = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+const WEEKDAY = Object.keys(WEEKDAYS).sort((a, b) => b.length - a.length).join('|');
+
+interface Moment {
+  day: string; // Local YYYY-MM-DD
+  time?: string; // HH:MM, when the text gave one
+  instant?: number; // Exact instant, for "now" or "2 hours ago"
+  duration_min?: number;
+}
+
+/**
+ * Parse a date such as "Friday", "i morgen", "in 2 weeks", "23.10" or
+ * "end of month" into a local day (YYYY-MM-DD)
+ *
+ * Bare weekdays and dates without a year are the next ones to come, unless
+ * `direction` is 'past'.
+ */
+export function parseDate(text: string, options?: ParseDateOptions): string {
+  return parseMoment(text, options?.now ?? new Date(), options?.direction ?? 'future').day;
+}
+
+/**
+ * Parse a point in time such as "yesterday evening", "next Tuesday 14:00"
+ * or "for 2 timer siden" into a normalized timestamp, with any duration
+ * that came with it ("yesterday 18:00 45 min")
+ *
+ * Bare weekdays and dates without a year are the last ones to have passed,
+ * unless `direction` is 'future'. A day without a time is noon of that
+ * day, except today, which is now.
+ */
+export function parseWhen(text: string, options?: ParseDateOptions): ParsedWhen {
+  const now = options?.now ?? new Date();
+  const moment = parseMoment(text, now, options?.direction ?? 'past');
+
+  let ts: string;
+  if (moment.instant !== undefined) {
+    ts = zonedTimestamp(new Date(moment.instant));
+  } else if (moment.time) {
+    ts = normalizeTimestamp(`${moment.day}T${moment.time}:00`);
+  } else if (moment.day === dayKey(now)) {
+    ts = zonedTimestamp(now);
+  } else {
+    ts = normalizeTimestamp(`${moment.day}T12:00:00`);
+  }
+
+  return moment.duration_min !== undefined ? { ts, duration_min: moment.duration_min } : { ts };
+}
+
+/**
+ * Parse an as-of point for replaying the stream, as asOfTimestamp does but
+ * also accepting phrases; a day without a time means the end of that day
+ */
+export function parseAsOf(text: string, options?: ParseDateOptions): string {
+  const moment = parseMoment(text, options?.now ?? new Date(), options?.direction ?? 'past');
+  if (moment.instant !== undefined) return new Date(moment.instant).toISOString();
+  if (moment.time) return asOfTimestamp(`${moment.day}T${moment.time}:00`);
+  return asOfTimestamp(moment.day);
+}
+
+/**
+ * Parse a duration such as "45 min", "1h 30m", "1h30", "1,5 timer" or
+ * "half an hour" into minutes; a bare number is minutes
+ */
+export function parseDuration(text: string): number {
+  const input = normalizeInput(text);
+  if (/^\d+(?:[.,]\d+)?$/.test(input)) return Number(input.replace(',', '.'));
+
+  const match = ` ${input} `.match(new RegExp(`^ (?:for |i )?(${AMOUNTS}) $`));
+  const amount = match ? sumAmounts(match[1]) : undefined;
+  if (!amount || amount.days > 0 || amount.months > 0) {
+    throw new Error(`Invalid duration: "${text}". Use minutes, or e.g. "1h 30m", "45 min", "1,5 timer"`);
+  }
+  return amount.minutes;
+}
+
+function parseMoment(text: string, now: Date, direction: 'future' | 'past'): Moment {
+  const trimmed = text.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return { day: trimmed };
+  }
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/i.test(trimmed)) {
+    const instant = toInstant(trimmed.replace(' ', 'T'));
+    if (isNaN(instant)) throw new Error(`Invalid timestamp: ${text}`);
+    return { day: dayKey(new Date(instant)), instant };
+  }
+
+  const today = dayKey(now);
+  const moment: Partial<Moment> = {};
+  let rest = ` ${normalizeInput(trimmed)} `;
+
+  // Remove the first match from what is left to understand
+  const take = (pattern: string): RegExpMatchArray | null => {
+    const match = rest.match(new RegExp(` ${pattern}(?= )`));
+    if (match) rest = rest.replace(match[0], ' ');
+    return match;
+  };
+  const setDay = (day: string) => {
+    if (moment.day && moment.day !== day) {
+      throw new Error(`"${text}" names two different days (${moment.day} and ${day})`);
+    }
+    moment.day = day;
+  };
+
+  // Relative to now: "2 hours ago", "for 3 dager siden", "in 2 weeks", "om en time"
+  for (const [pattern, sign] of [[`(${AMOUNTS}) ago`, -1], [`for (${AMOUNTS}) siden`, -1], [`(?:in|om) (${AMOUNTS})`, 1]] as const) {
+    const match = take(pattern);
+    if (!match) continue;
+    const { minutes, days, months } = sumAmounts(match[1]);
+    if (minutes > 0) {
+      moment.instant = now.getTime() + sign * (minutes + days * 1440) * 60_000;
+      setDay(dayKey(new Date(moment.instant)));
+    } else {
+      setDay(addMonths(addDays(today, sign * days), sign * months));
+    }
+    break;
+  }
+
+  // Times: "kl 14", "kl. 14.30", "14:30", "2pm", "at 9"
+  const time = take('(?:kl\\.?|klokka|klokken) ?(\\d{1,2})(?:[.:](\\d{2}))?')
+    ?? take('(?:at |@ ?)?(\\d{1,2}):(\\d{2}) ?(am|pm)?')
+    ?? take('(?:at |@ ?)?(\\d{1,2})(?:[.:](\\d{2}))? ?(am|pm)')
+    ?? take('at (\\d{1,2})(?:[.:](\\d{2}))?');
+  if (time) {
+    let hour = Number(time[1]);
+    const minute = Number(time[2] ?? 0);
+    if (time[3] === 'pm' && hour < 12) hour += 12;
+    if (time[3] === 'am' && hour === 12) hour = 0;
+    if (hour > 23 || minute > 59) throw new Error(`Invalid time in "${text}"`);
+    moment.time = `${pad(hour)}:${pad(minute)}`;
+  }
+
+  // Durations: "30 min", "for 1h 15m"; before dates, which "1.5 h" would look like
+  const duration = take(`(${AMOUNTS})`);
+  if (duration) {
+    const { minutes, days, months } = sumAmounts(duration[1]);
+    if (days > 0 || months > 0) throw new Error(`Could not understand "${duration[1]}" in "${text}"`);
+    moment.duration_min = minutes;
+  }
+
+  // Dates: "2026-10-23", "23.10", "23.10.2026", "23/10", "23rd of October", "Oct 23"
+  const iso = take('(\\d{4}-\\d{2}-\\d{2})');
+  if (iso) setDay(iso[1]);
+  const numeric = take('(\\d{1,2})[./](\\d{1,2})(?:[./](\\d{4}|\\d{2})?)?');
+  if (numeric) setDay(resolveDate(Number(numeric[2]), Number(numeric[1]), numeric[3], today, direction, text));
+  const dayMonth = take(`(\\d{1,2})(?:st|nd|rd|th|\\.)? (?:of )?(${MONTH})(?: (\\d{4}))?`);
+  if (dayMonth) setDay(resolveDate(MONTHS[dayMonth[2]], Number(dayMonth[1]), dayMonth[3], today, direction, text));
+  const monthDay = take(`(${MONTH}) (\\d{1,2})(?:st|nd|rd|th)?(?: (\\d{4}))?`);
+  if (monthDay) setDay(resolveDate(MONTHS[monthDay[1]], Number(monthDay[2]), monthDay[3], today, direction, text));
+
+  for (const [phrase, offset] of DAY_WORDS) {
+    if (take(phrase)) {
+      setDay(addDays(today, offset));
+      break;
+    }
+  }
+  if (take('(?:right now|just now|now|akkurat nå|nå)')) {
+    moment.instant = now.getTime();
+    setDay(today);
+  }
+
+  // Weekdays: "Friday", "next Tuesday", "forrige fredag", "på mandag"
+  const weekday = take(`(?:(next|neste|coming|kommende|førstkommende|last|forrige|sist|this|denne) )?(${WEEKDAY})`);
+  if (weekday) setDay(resolveWeekday(WEEKDAYS[weekday[2]], weekday[1], today, direction));
+
+  // Weeks and months: "next week", "forrige måned", "end of month", "slutten av uka", "weekend"
+  const todayWeekday = isoWeekday(today);
+  if (take('(?:end of (?:the |this )?week|slutten av uka|slutten av uken)')) setDay(addDays(today, 7 - todayWeekday));
+  if (take('(?:end of (?:the |this )?month|slutten av måneden|månedsslutt)')) setDay(addDays(addMonths(`${today.slice(0, 8)}01`, 1), -1));
+  const week = take('(next|neste|last|forrige) (?:week|uke|uka)');
+  if (week) setDay(addDays(today, 1 - todayWeekday + (/^(next|neste)$/.test(week[1]) ? 7 : -7)));
+  const month = take('(next|neste|last|forrige) (?:month|måned|mnd)');
+  if (month) setDay(addMonths(`${today.slice(0, 8)}01`, /^(next|neste)$/.test(month[1]) ? 1 : -1));
+  const weekend = take('(?:(next|neste|last|forrige|this) )?(?:weekend|helga|helgen)');
+  if (weekend) setDay(resolveWeekday(6, weekend[1], today, direction));
+
+  // Parts of the day: "evening", "i kveld", "this morning", "om ettermiddagen"
+  const partOfDay = take(`(?:(?:in the|this|i|om|på) )?(${TIMES_OF_DAY.map(([word]) => word).join('|')})`);
+  if (partOfDay) {
+    const rough = TIMES_OF_DAY.find(([word]) => word === partOfDay[1])![1];
+    if (!moment.time) {
+      moment.time = rough;
+    } else if (Number(moment.time.slice(0, 2)) < 12 && Number(rough.slice(0, 2)) >= 15) {
+      // "evening at 7" is 19:00
+      moment.time = `${pad(Number(moment.time.slice(0, 2)) + 12)}${moment.time.slice(2)}`;
+    }
+  }
+
+  const leftover = rest.split(' ').filter(word => word && !FILLERS.includes(word));
+  if (leftover.length > 0) {
+    throw new Error(
+      `Could not understand "${leftover.join(' ')}" in "${text}". ` +
+      'Use an ISO date or e.g. "friday", "tomorrow 14:00", "i går kveld", "in 2 weeks", "2 hours ago"'
+    );
+  }
+
+  return { ...moment, day: moment.day ?? today } as Moment;
+}
+
+function normalizeInput(text: string): string {
+  return ` ${text.toLowerCase()} `
+    .replace(/,(?!\d)/g, ' ')
+    .replace(/[!?]/g, ' ')
+    .replace(/ (?:half an hour|a half hour|en halvtime|halvtimen|halvtime|en halv time)(?= )/g, ' 30 min')
+    .replace(/ (?:an hour and a half|halvannen time|en og en halv time)(?= )/g, ' 90 min')
+    .replace(/ (\d+)([ht])(\d{2})(?:m|min)?(?= )/g, ' $1$2 $3 min')
+    .replace(/\s+/g, ' ')
+    .replace(/\.$/, '')
+    .trim();
+}
+
+function sumAmounts(text: string): { minutes: number; days: number; months: number } {
+  const totals = { minutes: 0, days: 0, months: 0 };
+  for (const match of text.matchAll(new RegExp(`(${NUMBER})(${UNIT})(?![a-zæøå])`, 'g'))) {
+    const number = match[1].trim();
+    const count = NUMBER_WORDS[number] ?? Number(number.replace(',', '.'));
+    switch (UNITS[match[2]]) {
+      case 'minute': totals.minutes += count; break;
+      case 'hour': totals.minutes += count * 60; break;
+      case 'day': totals.days += count; break;
+      case 'week': totals.days += count * 7; break;
+      case 'month': totals.months += count; break;
+    }
+  }
+  totals.minutes = Math.round(totals.minutes);
+  return totals;
+}
+
+/**
+ * Turn a month and day into a date, in the year that fits the direction
+ * when none was given
+ */
+function resolveDate(
+  month: number,
+  day: number,
+  year: string | undefined,
+  today: string,
+  direction: 'future' | 'past',
+  text: string
+): string {
+  const build = (y: number) => `${y}-${pad(month)}-${pad(day)}`;
+  const thisYear = Number(today.slice(0, 4));
+  let date = year ? build(year.length === 2 ? 2000 + Number(year) : Number(year)) : build(thisYear);
+  if (!year && direction === 'future' && date < today) date = build(thisYear + 1);
+  if (!year && direction === 'past' && date > today) date = build(thisYear - 1);
+
+  // Reject 31.02 and the like, which Date would roll over into March
+  if (month < 1 || month > 12 || new Date(`${date}T00:00:00Z`).toISOString().slice(0, 10) !== date) {
+    throw new Error(`Invalid date in "${text}"`);
+  }
+  return date;
+}
+
+/**
+ * Find the day of a weekday (1-7) relative to today
+ *
+ * "next" and "last" skip today; otherwise today counts, and the direction
+ * decides between the coming and the past one.
+ */
+function resolveWeekday(weekday: number, qualifier: string | undefined, today: string, direction: 'future' | 'past'): string {
+  const ahead = (weekday - isoWeekday(today) + 7) % 7;
+  const behind = (isoWeekday(today) - weekday + 7) % 7;
+  if (qualifier && /^(next|neste|coming|kommende|førstkommende)$/.test(qualifier)) return addDays(today, ahead || 7);
+  if (qualifier && /^(last|forrige|sist)$/.test(qualifier)) return addDays(today, -(behind || 7));
+  return direction === 'future' ? addDays(today, ahead) : addDays(today, -behind);
+}
+
+function addMonths(day: string, months: number): string {
+  const date = new Date(`${day.slice(0, 8)}01T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(Number(day.slice(8, 10)), lastDay));
+  return date.toISOString().slice(0, 10);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,33 @@
+/**
+ * Filesystem layout of the life stream
+ */
+
+import { join, dirname } from 'path';
+
+// Path to the root of the life stream directory
+// Defaults to the repository root (two levels up from dist/tools/lib or three from tools/lib)
+const getLifeDir = () => {
+  if (process.env.LIFE_DIR) {
+    return process.env.LIFE_DIR;
+  }
+  const currentFile = import.meta.url.replace('file://', '');
+  // If we're in dist/tools/lib, go up 3 levels
+  // If we're in tools/lib, go up 2 levels
+  const libDir = dirname(currentFile);
+  const toolsDir = dirname(libDir);
+  const rootDir = dirname(toolsDir);
+
+  // Check if we're in dist/ and need to go up one more level
+  if (rootDir.endsWith('dist')) {
+    return dirname(rootDir);
+  }
+  return rootDir;
+};
+
+export const LIFE_DIR = getLifeDir();
+export const EVENTS_DIR = join(LIFE_DIR, 'events');
+export const SYNCED_DIR = join(LIFE_DIR, 'synced');
+export const QUARANTINE_DIR = join(LIFE_DIR, 'quarantine');
+
+// Derived, rebuildable state (indexes, locks). Safe to delete at any time.
+export const CACHE_DIR = join(LIFE_DIR, '.cache');
@@ -0,0 +1,140 @@
+/**
+ * Review periods - days, ISO weeks, months, quarters and years
+ *
+ * A period covers whole calendar days in the home timezone (LIFE_TZ), so
+ * its instant boundaries move with daylight saving time.
+ */
+
+import { dayKey, weekKey, addDays, isoWeekday, startOfDay } from './dates.js';
+import type { Period, PeriodKind } from './types.js';
+
+export const PERIOD_KINDS: PeriodKind[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Parse a period key: 2026-01-15, 2026-W03, 2026-01, 2026-Q1 or 2026
+ */
+export function parsePeriod(key: string): Period {
+  let match: RegExpMatchArray | null;
+
+  if ((match = key.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    if (addDays(key, 0) === key) {
+      return makePeriod(key, 'day', key, key);
+    }
+  } else if ((match = key.match(/^(\d{4})-W(\d{2})$/))) {
+    // Week 1 is the week containing 4 January
+    const jan4 = `${match[1]}-01-04`;
+    const monday = addDays(jan4, 1 - isoWeekday(jan4) + (Number(match[2]) - 1) * 7);
+    if (Number(match[2]) >= 1 && weekKey(monday) === key) {
+      return makePeriod(key, 'week', monday, addDays(monday, 6));
+    }
+  } else if ((match = key.match(/^(\d{4})-(\d{2})$/))) {
+    const month = Number(match[2]);
+    if (month >= 1 && month <= 12) {
+      return makePeriod(key, 'month', `${key}-01`, lastDayOfMonth(Number(match[1]), month));
+    }
+  } else if ((match = key.match(/^(\d{4})-Q([1-4])$/))) {
+    const firstMonth = (Number(match[2]) - 1) * 3 + 1;
+    return makePeriod(
+      key,
+      'quarter',
+      `${match[1]}-${pad(firstMonth)}-01`,
+      lastDayOfMonth(Number(match[1]), firstMonth + 2)
+    );
+  } else if (/^\d{4}$/.test(key)) {
+    return makePeriod(key, 'year', `${key}-01-01`, `${key}-12-31`);
+  }
+
+  throw new Error(`Invalid period: ${key}. Use YYYY-MM-DD, YYYY-Www, YYYY-MM, YYYY-Qn or YYYY`);
+}
+
+/**
+ * Get the period of a kind that contains a date or timestamp (default: now)
+ */
+export function periodContaining(kind: PeriodKind, date: string | Date = new Date()): Period {
+  const day = dayKey(date);
+  const year = day.slice(0, 4);
+
+  switch (kind) {
+    case 'day':
+      return parsePeriod(day);
+    case 'week':
+      return parsePeriod(weekKey(day));
+    case 'month':
+      return parsePeriod(day.slice(0, 7));
+    case 'quarter':
+      return parsePeriod(`${year}-Q${Math.ceil(Number(day.slice(5, 7)) / 3)}`);
+    case 'year':
+      return parsePeriod(year);
+  }
+}
+
+/**
+ * Get the period of the same kind just before this one
+ */
+export function previousPeriod(period: Period): Period {
+  return periodContaining(period.kind, addDays(period.start_day, -1));
+}
+
+/**
+ * Check whether a period has ended by a point in time (default: now)
+ */
+export function isPeriodOver(period: Period, asOf: string | Date = new Date()): boolean {
+  return new Date(period.end).getTime() <= new Date(asOf).getTime();
+}
+
+/**
+ * Check whether a day (YYYY-MM-DD) falls inside a period
+ */
+export function inPeriod(period: Period, day: string): boolean {
+  return day >= period.start_day && day <= period.end_day;
+}
+
+/**
+ * Describe a period for headings, e.g. "Week 3, 2026" or "Q1 2026"
+ */
+export function periodLabel(period: Period): string {
+  const year = period.key.slice(0, 4);
+  switch (period.kind) {
+    case 'day':
+      return new Date(`${period.key}T00:00:00Z`).toLocaleDateString('en-US', {
+        timeZone: 'UTC',
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      });
+    case 'week':
+      return `Week ${Number(period.key.slice(6))}, ${year}`;
+    case 'month':
+      return `${MONTH_NAMES[Number(period.key.slice(5, 7)) - 1]} ${year}`;
+    case 'quarter':
+      return `${period.key.slice(5)} ${year}`;
+    case 'year':
+      return year;
+  }
+}
+
+function makePeriod(key: string, kind: PeriodKind, startDay: string, endDay: string): Period {
+  return {
+    key,
+    kind,
+    start_day: startDay,
+    end_day: endDay,
+    start: startOfDay(startDay).toISOString(),
+    end: startOfDay(addDays(endDay, 1)).toISOString(),
+  };
+}
+
+function lastDayOfMonth(year: number, month: number): string {
+  const next = month === 12 ? `${year + 1}-01-01` : `${year}-${pad(month + 1)}-01`;
+  return addDays(next, -1);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,240 @@
+/**
+ * Portfolio projection - holdings, cost basis and gains from investment events
+ */
+
+import { readEvents } from './events.js';
+import { dayKey } from './dates.js';
+import type {
+  BaseEvent,
+  CostBasisMethod,
+  Holding,
+  RealizedGain,
+  SnapshotReconciliation,
+  Portfolio,
+} from './types.js';
+
+// Differences smaller than this (NOK) are rounding, not discrepancies
+const TOLERANCE_NOK = 1;
+
+interface Lot {
+  quantity: number;
+  price_nok: number;
+}
+
+interface Position {
+  account: string;
+  asset: string;
+  lots: Lot[]; // FIFO order; a single merged lot for the average method
+}
+
+/**
+ * Derive the portfolio from investment.buy/sell/dividend/snapshot events
+ *
+ * `price_nok` on buys and sells is the price per unit. Dividends use
+ * `total_nok` if given, otherwise `quantity * price_nok`, otherwise
+ * `price_nok` as the total amount. Events without an account are booked to
+ * "default". With `asOf`, the portfolio is replayed as it stood at that
+ * moment.
+ */
+export async function getPortfolio(options?: { method?: CostBasisMethod; asOf?: string }): Promise<Portfolio> {
+  const method = options?.method || 'fifo';
+  const events = await readEvents({ eventType: 'investment' }, { asOf: options?.asOf });
+
+  const positions = new Map<string, Position>();
+  const realized: RealizedGain[] = [];
+  const realizedByYear: Record<string, number> = {};
+  const dividendsByYear: Record<string, number> = {};
+  const snapshots: SnapshotReconciliation[] = [];
+  const issues: string[] = [];
+
+  const positionFor = (event: BaseEvent): Position => {
+    const account = event.data.account || 'default';
+    const key = `${account}|${event.data.asset}`;
+    let position = positions.get(key);
+    if (!position) {
+      position = { account, asset: event.data.asset, lots: [] };
+      positions.set(key, position);
+    }
+    return position;
+  };
+
+  for (const event of events) {
+    const year = dayKey(event.ts).slice(0, 4);
+
+    switch (event.type) {
+      case 'investment.buy': {
+        const position = positionFor(event);
+        const lot = { quantity: event.data.quantity, price_nok: event.data.price_nok };
+        if (method === 'average' && position.lots.length > 0) {
+          position.lots = [mergeLots(position.lots[0], lot)];
+        } else {
+          position.lots.push(lot);
+        }
+        break;
+      }
+
+      case 'investment.sell': {
+        const position = positionFor(event);
+        const quantity: number = event.data.quantity;
+        const held = sumQuantity(position.lots);
+
+        if (quantity > held + 1e-9) {
+          issues.push(
+            `${event.ts}: sold ${quantity} ${position.asset} in ${position.account} but only ${round(held)} held; ` +
+            'the excess has no cost basis'
+          );
+        }
+
+        const cost = takeFromLots(position.lots, quantity);
+        const proceeds = quantity * event.data.price_nok;
+        const gain: RealizedGain = {
+          ts: event.ts,
+          account: position.account,
+          asset: position.asset,
+          quantity,
+          proceeds_nok: round(proceeds),
+          cost_nok: round(cost),
+          gain_nok: round(proceeds - cost),
+        };
+        if (event.data.realized_gain_nok !== undefined) {
+          gain.reported_gain_nok = event.data.realized_gain_nok;
+        }
+        realized.push(gain);
+        realizedByYear[year] = round((realizedByYear[year] || 0) + gain.gain_nok);
+        break;
+      }
+
+      case 'investment.dividend': {
+        const amount = dividendAmount(event);
+        dividendsByYear[year] = round((dividendsByYear[year] || 0) + amount);
+        break;
+      }
+
+      case 'investment.snapshot':
+        snapshots.push(reconcileSnapshot(event, [...positions.values()]));
+        break;
+    }
+  }
+
+  const holdings = [...positions.values()]
+    .map(toHolding)
+    .filter(h => h.quantity > 1e-9)
+    .sort((a, b) => a.account.localeCompare(b.account) || b.cost_basis_nok - a.cost_basis_nok);
+
+  return {
+    method,
+    holdings,
+    cost_basis_nok: round(holdings.reduce((sum, h) => sum + h.cost_basis_nok, 0)),
+    realized,
+    realized_by_year: realizedByYear,
+    dividends_by_year: dividendsByYear,
+    snapshots,
+    issues,
+  };
+}
+
+/**
+ * Compare a snapshot with the holdings derived up to that point
+ */
+function reconcileSnapshot(event: BaseEvent, positions: Position[]): SnapshotReconciliation {
+  const account: string | undefined = event.data.account;
+  const holdings = positions
+    .filter(p => !account || p.account === account)
+    .map(toHolding)
+    .filter(h => h.quantity > 1e-9);
+
+  const total: number = event.data.total_nok;
+  const costBasis = holdings.reduce((sum, h) => sum + h.cost_basis_nok, 0);
+  const issues: string[] = [];
+
+  const breakdown: Record<string, number> | undefined = event.data.breakdown;
+  if (breakdown) {
+    const breakdownTotal = Object.values(breakdown).reduce((sum, v) => sum + v, 0);
+    if (Math.abs(breakdownTotal - total) > TOLERANCE_NOK) {
+      issues.push(`breakdown adds up to ${round(breakdownTotal)} NOK, not ${total} NOK`);
+    }
+
+    // If the breakdown is by asset, every holding should appear in it
+    const assets = new Set(holdings.map(h => h.asset));
+    const byAsset = Object.keys(breakdown).some(key => assets.has(key));
+    if (byAsset) {
+      for (const asset of assets) {
+        if (!(asset in breakdown)) {
+          issues.push(`${asset} is held but missing from the breakdown`);
+        }
+      }
+    }
+  }
+
+  if (holdings.length === 0 && total > TOLERANCE_NOK) {
+    issues.push('no holdings derived from buy/sell events; are some purchases missing?');
+  }
+
+  const reconciliation: SnapshotReconciliation = {
+    ts: event.ts,
+    total_nok: total,
+    cost_basis_nok: round(costBasis),
+    unrealized_gain_nok: round(total - costBasis),
+    issues,
+  };
+  if (account) reconciliation.account = account;
+  return reconciliation;
+}
+
+function toHolding(position: Position): Holding {
+  const quantity = sumQuantity(position.lots);
+  const cost = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.price_nok, 0);
+  return {
+    account: position.account,
+    asset: position.asset,
+    quantity: round(quantity, 6),
+    cost_basis_nok: round(cost),
+    avg_cost_nok: quantity > 0 ? round(cost / quantity) : 0,
+  };
+}
+
+function mergeLots(a: Lot, b: Lot): Lot {
+  const quantity = a.quantity + b.quantity;
+  return {
+    quantity,
+    price_nok: quantity > 0 ? (a.quantity * a.price_nok + b.quantity * b.price_nok) / quantity : 0,
+  };
+}
+
+/**
+ * Remove a quantity from the front of the lots, returning its cost
+ */
+function takeFromLots(lots: Lot[], quantity: number): number {
+  let remaining = quantity;
+  let cost = 0;
+
+  while (remaining > 1e-9 && lots.length > 0) {
+    const lot = lots[0];
+    const taken = Math.min(lot.quantity, remaining);
+    cost += taken * lot.price_nok;
+    lot.quantity -= taken;
+    remaining -= taken;
+    if (lot.quantity <= 1e-9) {
+      lots.shift();
+    }
+  }
+
+  return cost;
+}
+
+function sumQuantity(lots: Lot[]): number {
+  return lots.reduce((sum, lot) => sum + lot.quantity, 0);
+}
+
+function dividendAmount(event: BaseEvent): number {
+  if (event.data.total_nok !== undefined) return event.data.total_nok;
+  if (event.data.quantity !== undefined && event.data.price_nok !== undefined) {
+    return event.data.quantity * event.data.price_nok;
+  }
+  return event.data.price_nok || 0;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
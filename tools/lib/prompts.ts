@@ -0,0 +1,229 @@
+/**
+ * Prompts - guided rituals (weekly review, daily check-in, planning)
+ *
+ * Each prompt embeds the current state from the stream and tells the model
+ * which tools to call to record the outcome, so the ritual ends with the
+ * same events logged whoever runs it.
+ */
+
+import { getOpenTasks, getActiveGoals, getGoalStatus, getPeriodSummary } from './query.js';
+import { getMeetings } from './meetings.js';
+import { generatePeriodReviewView } from './views.js';
+import { parsePeriod, periodContaining, periodLabel } from './periods.js';
+import { dayKey, addDays, startOfDay, normalizeTimestamp } from './dates.js';
+import type { Goal, Task, Meeting, LifePrompt, LifePromptResult } from './types.js';
+
+export const PROMPTS: LifePrompt[] = [
+  {
+    name: 'weekly_review',
+    description: 'Review a week against the one before, check in on every active goal and tidy the open tasks',
+    arguments: [
+      { name: 'week', description: 'ISO week to review, e.g. 2026-W03 (defaults to the current week)' },
+    ],
+  },
+  {
+    name: 'daily_checkin',
+    description: "Log today's mood, energy and anxiety, and catch up on anything done but not yet logged",
+    arguments: [],
+  },
+  {
+    name: 'plan_tomorrow',
+    description: "Pick tomorrow's priorities around its meetings, from open tasks and goals that need attention",
+    arguments: [],
+  },
+  {
+    name: 'goal_checkin',
+    description: 'Check in on one goal, or on every active goal, and log its progress',
+    arguments: [
+      { name: 'goal_id', description: 'Goal to check in on, e.g. g-2026-001 (defaults to all active goals)' },
+    ],
+  },
+];
+
+/**
+ * Build a prompt with the current state of the stream embedded
+ */
+export async function getPrompt(name: string, args?: Record<string, string>): Promise<LifePromptResult> {
+  switch (name) {
+    case 'weekly_review':
+      return weeklyReviewPrompt(args?.week);
+    case 'daily_checkin':
+      return dailyCheckinPrompt();
+    case 'plan_tomorrow':
+      return planTomorrowPrompt();
+    case 'goal_checkin':
+      return goalCheckinPrompt(args?.goal_id);
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
+
+async function weeklyReviewPrompt(week?: string): Promise<LifePromptResult> {
+  const period = week ? parsePeriod(week) : periodContaining('week');
+  if (period.kind !== 'week') {
+    throw new Error(`Invalid week: ${week}. Use YYYY-Www, e.g. 2026-W03`);
+  }
+
+  const review = await generatePeriodReviewView(period.key);
+  const goals = await getActiveGoals();
+  const tasks = await getOpenTasks();
+
+  return prompt(`Weekly review of ${periodLabel(period)}`, [
+    `Let's do my weekly review of ${periodLabel(period)} (${period.start_day} to ${period.end_day}).`,
+    review.trim(),
+    section('Active goals', formatList(goals, formatGoal, 'No active goals.')),
+    section('Open tasks', formatList(tasks, formatTask, 'No open tasks.')),
+    section('How to run the review', [
+      '1. Summarize the week in a few lines: what went well, what slipped, and how it compares with the week before.',
+      '2. Go through the active goals one at a time. Ask me how each is going, then log it with update_goal_progress ' +
+        '(status = on_track, at_risk or behind, notes = what I said). ' +
+        'Log one for every active goal, even if nothing changed. Use achieve_goal instead if the goal is done.',
+      '3. Go through the open tasks that are overdue, blocked or stale. Mark finished ones with complete_task, ' +
+        'move due dates with update_task, and drop the rest with abandon_task (with a reason).',
+      '4. Finish with the one or two things that matter most next week. Add new tasks with add_task if I agree.',
+      'Ask before logging anything I have not confirmed.',
+    ].join('\n')),
+  ]);
+}
+
+async function dailyCheckinPrompt(): Promise<LifePromptResult> {
+  const today = dayKey(new Date());
+  const summary = await getPeriodSummary(today);
+  const tasks = await getOpenTasks();
+  const dueTasks = tasks.filter(task => task.due && task.due <= today);
+  const loggedToday = [
+    ...summary.checkins.map(event => `- Check-in at ${time(event.ts)}: mood ${event.data.mood ?? '?'}, energy ${event.data.energy ?? '?'}`),
+    ...summary.exercise_sessions.map(event => `- ${event.data.activity} at ${time(event.ts)}${event.data.duration_min ? `, ${event.data.duration_min} min` : ''}`),
+    ...summary.tasks_completed.map(event => `- Completed ${event.id}${event.data.title ? `: ${event.data.title}` : ''}`),
+    ...summary.meetings.map(event => `- Meeting ${event.id}${event.data.title ? `: ${event.data.title}` : ''}`),
+  ];
+
+  return prompt(`Daily check-in for ${today}`, [
+    `Let's do my daily check-in for ${periodLabel(parsePeriod(today))}.`,
+    section('Logged so far today', loggedToday.length > 0 ? loggedToday.join('\n') : 'Nothing yet.'),
+    section('Tasks due today or overdue', formatList(dueTasks, formatTask, 'None.')),
+    section('How to run the check-in', [
+      '1. Ask me for my mood (1-10), energy (1-10) and anxiety (0-10), and anything on my mind.',
+      '2. Log it with log_checkin (mood, energy, anxiety, and notes if I said more).',
+      '3. Ask whether I exercised, finished tasks or had meetings today that are not logged above, and log them ' +
+        'with log_exercise, complete_task and complete_meeting.',
+      '4. If something is weighing on me, offer to log a mental.reflection (data.thought, data.trigger, data.reframe) ' +
+        'or a mental.gratitude (data.items) with log_event.',
+      'Keep it short, and ask before logging anything I have not confirmed.',
+    ].join('\n')),
+  ]);
+}
+
+async function planTomorrowPrompt(): Promise<LifePromptResult> {
+  const tomorrow = addDays(dayKey(new Date()), 1);
+  const meetings = await getMeetings({
+    status: 'scheduled',
+    startDate: startOfDay(tomorrow).toISOString(),
+    endDate: new Date(startOfDay(addDays(tomorrow, 1)).getTime() - 1).toISOString(),
+  });
+  const tasks = await getOpenTasks();
+  const goals = (await getActiveGoals()).filter(goal => goal.derived_status && goal.derived_status !== 'on_track');
+
+  return prompt(`Plan for ${tomorrow}`, [
+    `Help me plan tomorrow, ${periodLabel(parsePeriod(tomorrow))}.`,
+    section('Meetings', formatList(meetings, formatMeeting, 'No meetings scheduled.')),
+    section('Open tasks', formatList(tasks, formatTask, 'No open tasks.')),
+    section('Goals that need attention', formatList(goals, formatGoal, 'No active goals are behind.')),
+    section('How to plan', [
+      '1. Suggest up to three priorities for tomorrow, favouring overdue and urgent tasks and goals that are behind, ' +
+        'and say when they fit around the meetings.',
+      '2. Ask me to confirm or change the plan.',
+      '3. Then record it: set tomorrow as the due date of the chosen tasks with update_task, and add new tasks with add_task ' +
+        '(with goal_id if they serve a goal).',
+      'Ask before logging anything I have not confirmed.',
+    ].join('\n')),
+  ]);
+}
+
+async function goalCheckinPrompt(goalId?: string): Promise<LifePromptResult> {
+  let goals: Goal[];
+  if (goalId) {
+    const goal = await getGoalStatus(goalId);
+    if (!goal) {
+      throw new Error(`Goal not found: ${goalId}`);
+    }
+    goals = [goal];
+  } else {
+    goals = await getActiveGoals();
+  }
+
+  const tasks = await getOpenTasks();
+  const details = goals.map(goal => {
+    const linked = tasks.filter(task => task.goal_id === goal.id);
+    return [
+      formatGoal(goal),
+      ...(goal.success_criteria ? [`  Success criteria: ${goal.success_criteria}`] : []),
+      ...linked.map(task => `  ${formatTask(task)}`),
+    ].join('\n');
+  });
+
+  return prompt(goalId ? `Check-in on ${goalId}` : 'Check-in on active goals', [
+    goalId ? `Let's check in on my goal ${goalId}.` : "Let's check in on my active goals.",
+    section(goalId ? 'Goal' : 'Active goals', details.length > 0 ? details.join('\n') : 'No active goals.'),
+    section('How to run the check-in', [
+      '1. For each goal, tell me where it stands from the numbers above, then ask how I feel it is going.',
+      '2. Log it with update_goal_progress for each goal (status = on_track, at_risk or behind, notes = what I said).',
+      '3. If a goal is done, use achieve_goal instead. If I am dropping it, log goal.abandoned with data.reason, ' +
+        'and if its scope or date changes, goal.revised with the new fields, both with log_event.',
+      '4. If a goal is behind, suggest one concrete next step and add it with add_task (with goal_id) if I agree.',
+      'Ask before logging anything I have not confirmed.',
+    ].join('\n')),
+  ]);
+}
+
+function prompt(description: string, parts: string[]): LifePromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text: parts.join('\n\n') } }],
+  };
+}
+
+function section(title: string, body: string): string {
+  return `## ${title}\n\n${body.trim()}`;
+}
+
+function formatList<T>(items: T[], format: (item: T) => string, empty: string): string {
+  return items.length > 0 ? items.map(format).join('\n') : empty;
+}
+
+function formatTask(task: Task): string {
+  const details = [
+    task.status === 'open' ? undefined : task.status.replace('_', ' '),
+    task.priority,
+    task.due ? `due ${task.due}` : undefined,
+    task.area,
+    task.blocked_reason ? `blocked: ${task.blocked_reason}` : undefined,
+  ].filter(Boolean);
+  return `- ${task.id}: ${task.title}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+function formatGoal(goal: Goal): string {
+  const details = [
+    goal.progress
+      ? `${goal.progress.current} of ${goal.progress.target_value}${goal.progress.unit ? ` ${goal.progress.unit}` : ''}, ${goal.progress.percent}%`
+      : undefined,
+    goal.derived_status ? goal.derived_status.replace('_', ' ') : undefined,
+    goal.latest_status ? `last reported ${goal.latest_status.replace('_', ' ')}` : undefined,
+    goal.target_date ? `target ${goal.target_date}` : undefined,
+  ].filter(Boolean);
+  return `- ${goal.id}: ${goal.title}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+function formatMeeting(meeting: Meeting): string {
+  const details = [
+    meeting.start ? time(meeting.start) : undefined,
+    meeting.duration_min ? `${meeting.duration_min} min` : undefined,
+    meeting.with.length > 0 ? `with ${meeting.with.join(', ')}` : undefined,
+  ].filter(Boolean);
+  return `- ${meeting.id}: ${meeting.title}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+// Time of day (HH:MM) in the home timezone
+function time(ts: string): string {
+  return normalizeTimestamp(ts).slice(11, 16);
+}
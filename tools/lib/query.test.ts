@@ -0,0 +1,121 @@
+/**
+ * Tests for the structured query language and cursor pagination
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The stream location and timezone are read when the library is loaded
+const lifeDir = mkdtempSync(join(tmpdir(), 'life-stream-query-'));
+process.env.LIFE_DIR = lifeDir;
+process.env.LIFE_TZ = 'Europe/Oslo';
+const { logEvent, runQuery, paginate, QuerySyntaxError } = await import('./index.js');
+
+after(() => rmSync(lifeDir, { recursive: true, force: true }));
+
+await logEvent('exercise.completed', { activity: 'run', distance_km: 12 }, { timestamp: '2026-01-05T07:00:00+01:00' });
+await logEvent('exercise.completed', { activity: 'run', distance_km: 5 }, { timestamp: '2026-01-06T07:00:00+01:00' });
+await logEvent('exercise.completed', { activity: 'swim', distance_km: 2 }, { timestamp: '2026-01-07T07:00:00+01:00' });
+await logEvent('exercise.completed', { activity: 'cycle', distance_km: 40 }, { timestamp: '2026-01-08T07:00:00+01:00' });
+await logEvent('mental.checkin', { mood: 7 }, { timestamp: '2026-01-09T20:00:00+01:00' });
+
+const activities = async (query: string) =>
+  (await runQuery(query)).rows.map(row => row.data.activity ?? row.type);
+
+test('AND binds tighter than OR', async () => {
+  assert.deepEqual(
+    await activities('type = mental.checkin OR data.activity = run AND data.distance_km > 10'),
+    ['run', 'mental.checkin']
+  );
+});
+
+test('parentheses override precedence', async () => {
+  assert.deepEqual(
+    await activities('(type = mental.checkin OR data.activity = run) AND data.distance_km > 10'),
+    ['run']
+  );
+});
+
+test('NOT binds tighter than AND', async () => {
+  assert.deepEqual(
+    await activities('NOT data.activity = run AND type = exercise.completed'),
+    ['swim', 'cycle']
+  );
+});
+
+test('in, exists, prefixes and derived fields', async () => {
+  assert.deepEqual(await activities('data.activity in (swim, cycle)'), ['swim', 'cycle']);
+  assert.deepEqual(await activities('data.mood exists'), ['mental.checkin']);
+  assert.deepEqual(await activities('type = exercise.* AND day = 2026-01-06'), ['run']);
+});
+
+test('inherited properties are not fields', async () => {
+  assert.deepEqual(await activities('data.constructor exists'), []);
+  assert.equal((await activities('data.toString != x')).length, 5);
+  const sorted = await runQuery('type = exercise.completed | sort constructor | fields data.activity, hasOwnProperty');
+  assert.deepEqual(sorted.rows[0], { 'data.activity': 'run', hasOwnProperty: undefined });
+});
+
+test('stages run in order', async () => {
+  const result = await runQuery('type = exercise.completed | sort data.distance_km desc | limit 2 | fields data.activity');
+  assert.equal(result.total, 4);
+  assert.deepEqual(result.rows, [{ 'data.activity': 'cycle' }, { 'data.activity': 'run' }]);
+
+  const grouped = await runQuery('type = exercise.completed | group by data.activity count, sum data.distance_km');
+  assert.deepEqual(grouped.rows.find(row => row.key === 'run'), { key: 'run', count: 2, sum_distance_km: 17 });
+});
+
+test('parse errors carry their position', async () => {
+  const cases: [string, RegExp, number][] = [
+    ['activity = run', /Unknown field: activity \(did you mean data\.activity\?\)/, 0],
+    ['(type = exercise.completed', /Expected "\)", got end of query/, 26],
+    ['type = run | frobnicate', /Expected sort, limit, fields or group/, 13],
+    ['type = run | limit ten', /Expected a whole number, got "ten"/, 19],
+    ['type run', /Expected op/, 5],
+    ['constructor exists', /Unknown field: constructor/, 0],
+    ['toString = x', /Unknown field: toString/, 0],
+  ];
+  for (const [query, message, position] of cases) {
+    await assert.rejects(runQuery(query), (error: unknown) => {
+      assert.ok(error instanceof QuerySyntaxError, query);
+      assert.match(error.message, message);
+      assert.equal(error.position, position, query);
+      return true;
+    });
+  }
+});
+
+test('a cursor round-trip visits every row once', async () => {
+  const { rows } = await runQuery('');
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = paginate(rows, { cursor, limit: 2 });
+    assert.equal(page.total, rows.length);
+    seen.push(...page.rows.map(row => row.event_id!));
+    cursor = page.next_cursor;
+  } while (cursor);
+  assert.deepEqual(seen, rows.map(row => row.event_id));
+
+  assert.throws(() => paginate(rows, { cursor: 'not-a-cursor' }), /Invalid cursor/);
+});
+
+test('pages stay in place when events are appended between them', async () => {
+  const query = 'type = exercise.completed';
+  const first = paginate((await runQuery(query)).rows, { limit: 2 });
+  assert.deepEqual(first.rows.map(row => row.data.distance_km), [12, 5]);
+
+  // A backfilled event before the cursor and a new one after it
+  await logEvent('exercise.completed', { activity: 'walk', distance_km: 3 }, { timestamp: '2026-01-01T12:00:00+01:00' });
+  await logEvent('exercise.completed', { activity: 'ski', distance_km: 8 }, { timestamp: '2026-01-10T07:00:00+01:00' });
+
+  const second = paginate((await runQuery(query)).rows, { cursor: first.next_cursor, limit: 2 });
+  assert.deepEqual(second.rows.map(row => row.data.distance_km), [2, 40]);
+
+  const third = paginate((await runQuery(query)).rows, { cursor: second.next_cursor, limit: 2 });
+  assert.deepEqual(third.rows.map(row => row.data.distance_km), [8]);
+  assert.equal(third.next_cursor, undefined);
+});
@@ -3,13 +3,56 @@
  */
 
 import { readEvents } from './events.js';
-import type { BaseEvent, Task, Goal, QueryFilters } from './types.js';
+import { getWorkSessions, totalWorkHours } from './work.js';
+import { getHealthTrends } from './health.js';
+import { getMentalTrends } from './mental.js';
+import { attachGoalProgress } from './goal-progress.js';
+import { dayKey, weekKey, addDays, asOfTimestamp, toInstant } from './dates.js';
+import { parsePeriod, periodContaining, previousPeriod, isPeriodOver, inPeriod } from './periods.js';
+import type {
+  BaseEvent,
+  Task,
+  TaskStatus,
+  Goal,
+  GoalStatus,
+  Period,
+  PeriodComparison,
+  PeriodSummary,
+  PeriodTotals,
+  QueryFilters,
+  QueryResult,
+  ReadOptions,
+  StateDiff,
+} from './types.js';
+
+// Statuses of tasks that still need attention
+const ACTIVE_TASK_STATUSES: TaskStatus[] = ['open', 'in_progress', 'blocked'];
+
+// Fields a task.updated event may change
+const UPDATABLE_TASK_FIELDS = ['title', 'area', 'project', 'due', 'priority', 'goal_id'] as const;
+
+// Goal fields that goal.set establishes and goal.revised may change
+const REVISABLE_GOAL_FIELDS = [
+  'title',
+  'horizon',
+  'area',
+  'target_date',
+  'success_criteria',
+  'metric',
+  'target_value',
+  'unit',
+  'filters',
+  'start_date',
+] as const;
 
 /**
- * Get all open tasks (not completed or abandoned)
+ * Get every task with its full lifecycle
+ *
+ * Optionally restricted to one or more statuses. Every projection here
+ * takes an `asOf` timestamp to reconstruct the state at that moment.
  */
-export async function getOpenTasks(): Promise<Task[]> {
-  const events = await readEvents({ eventType: 'task' });
+export async function getTasks(options?: { status?: TaskStatus | TaskStatus[]; asOf?: string }): Promise<Task[]> {
+  const events = await readEvents({ eventType: 'task' }, { asOf: options?.asOf });
   const tasks: Record<string, Task> = {};
 
   for (const event of events) {
@@ -21,134 +64,231 @@ export async function getOpenTasks(): Promise<Task[]> {
         id,
         title: event.data.title,
         area: event.data.area,
+        project: event.data.project,
         due: event.data.due,
         priority: event.data.priority,
+        goal_id: event.data.goal_id,
         status: 'open',
         created: event.ts,
+        transitions: [{ status: 'open', ts: event.ts }],
       };
-    } else if (event.type === 'task.completed' || event.type === 'task.abandoned') {
-      if (tasks[id]) {
-        tasks[id].status = 'closed';
-      }
+      continue;
+    }
+
+    const task = tasks[id];
+    if (!task) continue;
+
+    switch (event.type) {
+      case 'task.updated':
+        for (const field of UPDATABLE_TASK_FIELDS) {
+          if (field === 'title' && !event.data.title) continue;
+          if (field in event.data) {
+            task[field] = event.data[field] ?? undefined;
+          }
+        }
+        break;
+      case 'task.started':
+        task.started_at ??= event.ts;
+        transitionTask(task, 'in_progress', event);
+        break;
+      case 'task.blocked':
+        task.blocked_at = event.ts;
+        transitionTask(task, 'blocked', event);
+        break;
+      case 'task.completed':
+        task.completed_at = event.ts;
+        transitionTask(task, 'completed', event);
+        task.cycle_time_days = daysBetween(task.started_at || task.created, event.ts);
+        break;
+      case 'task.abandoned':
+        task.abandoned_at = event.ts;
+        task.abandoned_reason = event.data.reason;
+        transitionTask(task, 'abandoned', event);
+        break;
     }
   }
 
-  return Object.values(tasks).filter(t => t.status === 'open');
+  const statuses = options?.status
+    ? (Array.isArray(options.status) ? options.status : [options.status])
+    : null;
+
+  return Object.values(tasks).filter(t => !statuses || statuses.includes(t.status));
 }
 
 /**
- * Get the status of a specific goal
+ * Get all open tasks (not completed or abandoned)
+ *
+ * Includes tasks that are in progress or blocked.
  */
-export async function getGoalStatus(goalId: string): Promise<Goal | null> {
-  const events = await readEvents({ eventType: 'goal', id: goalId });
+export async function getOpenTasks(options?: { asOf?: string }): Promise<Task[]> {
+  return getTasks({ status: ACTIVE_TASK_STATUSES, asOf: options?.asOf });
+}
 
-  if (events.length === 0) {
-    return null;
-  }
+/**
+ * Move a task to a new status and record the transition
+ */
+function transitionTask(task: Task, status: TaskStatus, event: BaseEvent): void {
+  task.status = status;
+  task.blocked_reason = status === 'blocked' ? event.data.reason : undefined;
+  task.transitions.push({
+    status,
+    ts: event.ts,
+    ...(event.data.reason && { reason: event.data.reason }),
+  });
+}
 
-  const goal: Goal = {
-    id: goalId,
-    title: '',
-    history: [],
-  };
+/**
+ * Number of days between two timestamps, to one decimal
+ */
+function daysBetween(from: string, to: string): number {
+  const days = (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24);
+  return Math.round(days * 10) / 10;
+}
 
-  for (const event of events) {
-    if (event.type === 'goal.set') {
-      goal.title = event.data.title || '';
-      goal.horizon = event.data.horizon;
-      goal.area = event.data.area;
-      goal.target_date = event.data.target_date;
-      goal.success_criteria = event.data.success_criteria;
-    } else if (event.type === 'goal.progress') {
-      goal.latest_status = event.data.status;
-      goal.history.push(event);
-    } else if (event.type === 'goal.revised') {
-      // Update goal details if revised
-      if (event.data.title) goal.title = event.data.title;
-      if (event.data.target_date) goal.target_date = event.data.target_date;
-      goal.history.push(event);
-    } else if (event.type === 'goal.achieved') {
-      goal.achieved = true;
-      goal.achieved_at = event.ts;
-    }
+/**
+ * Get every goal with its full history
+ *
+ * Optionally restricted to one or more statuses.
+ */
+export async function getGoals(options?: { status?: GoalStatus | GoalStatus[]; asOf?: string }): Promise<Goal[]> {
+  const events = await readEvents({ eventType: 'goal' }, { asOf: options?.asOf });
+  const statuses = options?.status
+    ? (Array.isArray(options.status) ? options.status : [options.status])
+    : null;
+
+  const goals = Object.values(reduceGoals(events))
+    .filter(g => !statuses || statuses.includes(g.status));
+  return attachGoalProgress(goals, await getTasks({ asOf: options?.asOf }), options?.asOf);
+}
+
+/**
+ * Get the status of a specific goal
+ */
+export async function getGoalStatus(goalId: string, options?: { asOf?: string }): Promise<Goal | null> {
+  const events = await readEvents({ eventType: 'goal', id: goalId }, { asOf: options?.asOf });
+  const goal = reduceGoals(events)[goalId];
+
+  if (!goal) {
+    return null;
   }
 
+  await attachGoalProgress([goal], await getTasks({ asOf: options?.asOf }), options?.asOf);
   return goal;
 }
 
 /**
  * Get all active goals (not achieved or abandoned)
  */
-export async function getActiveGoals(): Promise<Goal[]> {
-  const events = await readEvents({ eventType: 'goal' });
+export async function getActiveGoals(options?: { asOf?: string }): Promise<Goal[]> {
+  return getGoals({ status: 'active', asOf: options?.asOf });
+}
+
+/**
+ * Fold goal events into goals
+ *
+ * goal.set establishes a goal and goal.revised overwrites any field it
+ * carries; goal.achieved and goal.abandoned close it. Every event after the
+ * goal.set is kept in its history. Events for a goal that was never set
+ * (a forced backfill or a mistyped ID) are skipped, as for tasks.
+ */
+function reduceGoals(events: BaseEvent[]): Record<string, Goal> {
   const goals: Record<string, Goal> = {};
 
   for (const event of events) {
     const id = event.id;
     if (!id) continue;
 
-    if (!goals[id]) {
-      goals[id] = {
-        id,
-        title: '',
-        history: [],
-      };
+    if (event.type === 'goal.set') {
+      goals[id] ??= { id, title: '', status: 'active', history: [] };
     }
-
     const goal = goals[id];
+    if (!goal) continue;
 
-    if (event.type === 'goal.set') {
-      goal.title = event.data.title || '';
-      goal.horizon = event.data.horizon;
-      goal.area = event.data.area;
-      goal.target_date = event.data.target_date;
-      goal.success_criteria = event.data.success_criteria;
-    } else if (event.type === 'goal.progress') {
-      goal.latest_status = event.data.status;
-      goal.history.push(event);
-    } else if (event.type === 'goal.revised') {
-      if (event.data.title) goal.title = event.data.title;
-      if (event.data.target_date) goal.target_date = event.data.target_date;
-      goal.history.push(event);
-    } else if (event.type === 'goal.achieved') {
-      goal.achieved = true;
-      goal.achieved_at = event.ts;
-    } else if (event.type === 'goal.abandoned') {
-      // Mark as achieved (inactive)
-      goal.achieved = true;
-    }
-  }
-
-  // Return only active goals (not achieved or abandoned)
-  return Object.values(goals).filter(g => !g.achieved);
-}
-
-/**
- * Generate a weekly summary
- */
-export async function getWeeklySummary(): Promise<{
-  tasks_completed: BaseEvent[];
-  tasks_created: BaseEvent[];
-  meetings: BaseEvent[];
-  exercise_sessions: BaseEvent[];
-  work_hours: number;
-  checkins: BaseEvent[];
-}> {
-  const weekAgo = new Date();
-  weekAgo.setDate(weekAgo.getDate() - 7);
-
-  const events = await readEvents({ startDate: weekAgo.toISOString() });
-
-  const summary = {
-    tasks_completed: [] as BaseEvent[],
-    tasks_created: [] as BaseEvent[],
-    meetings: [] as BaseEvent[],
-    exercise_sessions: [] as BaseEvent[],
+    switch (event.type) {
+      case 'goal.set':
+        goal.set_at = event.ts;
+        goal.start_date = dayKey(event.ts);
+        reviseGoal(goal, event.data);
+        continue;
+      case 'goal.progress':
+        if (event.data.status) goal.latest_status = event.data.status;
+        break;
+      case 'goal.revised':
+        reviseGoal(goal, event.data);
+        break;
+      case 'goal.achieved':
+        goal.status = 'achieved';
+        goal.achieved_at = event.ts;
+        break;
+      case 'goal.abandoned':
+        goal.status = 'abandoned';
+        goal.abandoned_at = event.ts;
+        goal.abandoned_reason = event.data.reason;
+        break;
+    }
+
+    goal.history.push(event);
+  }
+
+  return goals;
+}
+
+/**
+ * Copy the goal fields present in goal.set / goal.revised data
+ */
+function reviseGoal(goal: Goal, data: Record<string, any>): void {
+  for (const field of REVISABLE_GOAL_FIELDS) {
+    if (data[field] !== undefined && data[field] !== null && data[field] !== '') {
+      (goal as Record<string, any>)[field] = data[field];
+    }
+  }
+}
+
+/**
+ * Summarize the current ISO week (or the week containing `asOf`)
+ */
+export async function getWeeklySummary(options?: { asOf?: string }): Promise<PeriodSummary> {
+  const asOf = options?.asOf ? asOfTimestamp(options.asOf) : undefined;
+  return getPeriodSummary(periodContaining('week', asOf), { asOf });
+}
+
+/**
+ * Summarize a review period: a day, ISO week, month, quarter or year
+ *
+ * Takes a Period or a key such as 2026-W03. Events are bucketed by their
+ * day in the home timezone, so a summary of a period that is over does not
+ * change unless events are backfilled or amended. With `asOf`, the period
+ * is summarized as the stream stood at that moment.
+ */
+export async function getPeriodSummary(period: Period | string, options?: { asOf?: string }): Promise<PeriodSummary> {
+  if (typeof period === 'string') period = parsePeriod(period);
+  const asOf = options?.asOf ? asOfTimestamp(options.asOf) : undefined;
+
+  // Widen the read by a day on each side, since timestamps carry all
+  // sorts of offsets, then keep the events whose local day is in range
+  const events = await readEvents(
+    { startDate: addDays(period.start_day, -1), endDate: addDays(period.end_day, 2) },
+    { asOf }
+  );
+
+  const summary: PeriodSummary = {
+    period,
+    complete: isPeriodOver(period, asOf),
+    tasks_completed: [],
+    tasks_created: [],
+    goals_achieved: [],
+    meetings: [],
+    exercise_sessions: [],
     work_hours: 0,
-    checkins: [] as BaseEvent[],
+    checkins: [],
+    health: { nights: 0, bp_readings: 0 },
+    mental: { checkins: 0 },
+    totals: {} as PeriodTotals,
   };
 
   for (const event of events) {
+    if (!inPeriod(period, dayKey(event.ts))) continue;
+
     switch (event.type) {
       case 'task.completed':
         summary.tasks_completed.push(event);
@@ -156,28 +296,719 @@ export async function getWeeklySummary(): Promise<{
       case 'task.created':
         summary.tasks_created.push(event);
         break;
+      case 'goal.achieved':
+        summary.goals_achieved.push(event);
+        break;
       case 'meeting.completed':
         summary.meetings.push(event);
         break;
       case 'exercise.completed':
         summary.exercise_sessions.push(event);
         break;
-      case 'work.logged':
-      case 'work.stopped':
-        summary.work_hours += (event.data.duration_min || 0) / 60;
-        break;
       case 'mental.checkin':
         summary.checkins.push(event);
         break;
     }
   }
 
+  // Pair timers so started/stopped sessions count without a typed duration
+  const sessions = await getWorkSessions({ asOf });
+  summary.work_hours = totalWorkHours(sessions.filter(s => inPeriod(period, dayKey(s.start))));
+
+  // Day-based trends stop at the as-of day, or today for a running period
+  const lastDay = earlierDay(period.end_day, dayKey(asOf ?? new Date()));
+  if (lastDay >= period.start_day) {
+    summary.health = (await getHealthTrends({ startDate: period.start_day, endDate: lastDay, asOf })).summary;
+    summary.mental = (await getMentalTrends({ startDate: period.start_day, endDate: lastDay, asOf })).summary;
+  }
+
+  summary.totals = periodTotals(summary);
   return summary;
 }
 
+/**
+ * Compare a period with the one before it
+ */
+export async function comparePeriods(period: Period | string, options?: { asOf?: string }): Promise<PeriodComparison> {
+  if (typeof period === 'string') period = parsePeriod(period);
+
+  const current = await getPeriodSummary(period, options);
+  const previous = await getPeriodSummary(previousPeriod(period), options);
+
+  const change: Partial<PeriodTotals> = {};
+  for (const key of Object.keys(current.totals) as (keyof PeriodTotals)[]) {
+    const now = current.totals[key];
+    const before = previous.totals[key];
+    if (now !== undefined && before !== undefined) {
+      change[key] = round(now - before, 2);
+    }
+  }
+
+  return { current, previous, change };
+}
+
+function periodTotals(summary: PeriodSummary): PeriodTotals {
+  const sum = (events: BaseEvent[], field: string) =>
+    events.reduce((total, event) => total + (Number(event.data[field]) || 0), 0);
+
+  return {
+    tasks_created: summary.tasks_created.length,
+    tasks_completed: summary.tasks_completed.length,
+    goals_achieved: summary.goals_achieved.length,
+    meetings: summary.meetings.length,
+    exercise_sessions: summary.exercise_sessions.length,
+    exercise_min: sum(summary.exercise_sessions, 'duration_min'),
+    distance_km: round(sum(summary.exercise_sessions, 'distance_km'), 2),
+    work_hours: round(summary.work_hours, 2),
+    checkins: summary.checkins.length,
+    sleep_avg_min: summary.health.sleep_avg_min,
+    mood_avg: summary.mental.mood_avg,
+    energy_avg: summary.mental.energy_avg,
+    anxiety_avg: summary.mental.anxiety_avg,
+  };
+}
+
+function earlierDay(a: string, b: string): string {
+  return a < b ? a : b;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
 /**
  * Query events with custom filters and return raw events
  */
-export async function queryEvents(filters: QueryFilters): Promise<BaseEvent[]> {
-  return readEvents(filters);
+export async function queryEvents(filters: QueryFilters, options?: ReadOptions): Promise<BaseEvent[]> {
+  return readEvents(filters, options);
+}
+
+/**
+ * Show what changed in tasks and goals between two points in time
+ */
+export async function diffState(from: string, to: string): Promise<StateDiff> {
+  const [tasksBefore, tasksAfter] = await Promise.all([getTasks({ asOf: from }), getTasks({ asOf: to })]);
+  const [goalsBefore, goalsAfter] = await Promise.all([getGoals({ asOf: from }), getGoals({ asOf: to })]);
+
+  const taskStatus = new Map(tasksBefore.map(t => [t.id, t.status]));
+  const goalStatus = new Map(goalsBefore.map(g => [g.id, g.status]));
+
+  const diff: StateDiff = {
+    from,
+    to,
+    tasks: { added: [], completed: [], abandoned: [], changed: [] },
+    goals: { set: [], achieved: [], abandoned: [] },
+  };
+
+  for (const task of tasksAfter) {
+    const before = taskStatus.get(task.id);
+    if (!before) diff.tasks.added.push(task);
+    if (before === task.status) continue;
+
+    if (task.status === 'completed') diff.tasks.completed.push(task);
+    else if (task.status === 'abandoned') diff.tasks.abandoned.push(task);
+    else if (before) diff.tasks.changed.push({ task, from: before });
+  }
+
+  for (const goal of goalsAfter) {
+    const before = goalStatus.get(goal.id);
+    if (!before) diff.goals.set.push(goal);
+    if (before === goal.status) continue;
+
+    if (goal.status === 'achieved') diff.goals.achieved.push(goal);
+    else if (goal.status === 'abandoned') diff.goals.abandoned.push(goal);
+  }
+
+  return diff;
+}
+
+/**
+ * Thrown when a structured query cannot be parsed
+ */
+export class QuerySyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+type QueryValue = string | number | boolean | null;
+type QueryOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~';
+
+type QueryNode =
+  | { kind: 'and' | 'or'; nodes: QueryNode[] }
+  | { kind: 'not'; node: QueryNode }
+  | { kind: 'compare'; field: string; op: QueryOperator; value: QueryValue }
+  | { kind: 'in'; field: string; values: QueryValue[] }
+  | { kind: 'exists'; field: string };
+
+interface QueryAggregate {
+  fn: 'count' | 'sum' | 'avg' | 'min' | 'max';
+  field?: string;
+}
+
+type QueryStage =
+  | { kind: 'sort'; field: string; desc: boolean }
+  | { kind: 'limit'; count: number }
+  | { kind: 'fields'; fields: string[] }
+  | { kind: 'group'; field: string; aggregates: QueryAggregate[] };
+
+interface QueryToken {
+  kind: 'word' | 'string' | 'op' | 'punct' | 'end';
+  text: string;
+  pos: number;
+}
+
+// Top-level event fields a query may refer to besides data.*
+const EVENT_FIELDS = ['ts', 'type', 'source', 'id', 'event_id'];
+
+// Fields derived from the timestamp, in the home timezone
+const DERIVED_FIELDS: Record<string, (ts: string) => string> = {
+  day: ts => dayKey(ts),
+  week: ts => weekKey(dayKey(ts)),
+  month: ts => dayKey(ts).slice(0, 7),
+  year: ts => dayKey(ts).slice(0, 4),
+};
+
+const QUERY_OPERATORS = ['!=', '>=', '<=', '=', '>', '<', '~'];
+
+/**
+ * Run a structured query over the event stream
+ *
+ * A query is a filter followed by pipeline stages, e.g.
+ *
+ *   type = exercise.completed AND data.activity = run AND data.distance_km > 10
+ *     AND month = 2026-01 | sort data.distance_km desc | limit 5 | fields ts, data.distance_km
+ *
+ *   type = task.created AND (data.area = work OR data.project ~ roadmap) AND NOT data.priority exists
+ *
+ *   type = exercise.completed | group by month count, sum data.distance_km, avg data.duration_min
+ *
+ * Fields are ts, type, source, id, event_id, data.<path>, and day, week,
+ * month and year (derived from ts in the home timezone). Operators are
+ * = != > >= < <= and ~ (contains); `in (a, b)` and `exists` test membership
+ * and presence. Strings compare case-insensitively, a trailing * matches a
+ * prefix, and a missing field only matches != and `= null`. Array fields
+ * match if any element does. Stages are sort <field> [asc|desc],
+ * limit <n>, fields <f1>, <f2>, and group by <field> with count, sum, avg,
+ * min or max <field>.
+ */
+export async function runQuery(
+  query: string,
+  options?: { filters?: QueryFilters } & ReadOptions
+): Promise<QueryResult> {
+  const { where, stages } = parseQuery(query);
+
+  // Explicit filters win over those derived from the query; the query is
+  // evaluated in full either way
+  const filters = pushDownFilters(where);
+  for (const [key, value] of Object.entries(options?.filters || {})) {
+    if (value !== undefined) filters[key as keyof QueryFilters] = value;
+  }
+
+  const events = await readEvents(filters, { raw: options?.raw, asOf: options?.asOf });
+
+  let rows: Record<string, any>[] = where ? events.filter(event => evaluateNode(where, event)) : events;
+  const total = rows.length;
+
+  for (const stage of stages) {
+    rows = applyStage(rows, stage);
+  }
+
+  return { query, total, count: rows.length, rows };
+}
+
+/**
+ * Parse a query into its filter and pipeline stages
+ */
+function parseQuery(query: string): { where?: QueryNode; stages: QueryStage[] } {
+  const tokens = tokenizeQuery(query);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isKeyword = (token: QueryToken, ...words: string[]) =>
+    token.kind === 'word' && words.includes(token.text.toLowerCase());
+  const expect = (kind: QueryToken['kind'], text?: string): QueryToken => {
+    const token = next();
+    if (token.kind !== kind || (text !== undefined && token.text !== text)) {
+      throw new QuerySyntaxError(`Expected ${text ? `"${text}"` : kind}, got ${describeToken(token)}`, token.pos);
+    }
+    return token;
+  };
+
+  const parseField = (validate: boolean): string => {
+    const token = next();
+    if (token.kind !== 'word') {
+      throw new QuerySyntaxError(`Expected a field, got ${describeToken(token)}`, token.pos);
+    }
+    const field = token.text;
+    if (validate && !EVENT_FIELDS.includes(field) && !Object.hasOwn(DERIVED_FIELDS, field) && !/^data\.[\w.-]+$/.test(field)) {
+      throw new QuerySyntaxError(`Unknown field: ${field} (did you mean data.${field}?)`, token.pos);
+    }
+    return field;
+  };
+
+  const parseValue = (): QueryValue => {
+    const token = next();
+    if (token.kind === 'string') return token.text;
+    if (token.kind !== 'word') {
+      throw new QuerySyntaxError(`Expected a value, got ${describeToken(token)}`, token.pos);
+    }
+    if (/^-?\d+(\.\d+)?$/.test(token.text)) return Number(token.text);
+    const lower = token.text.toLowerCase();
+    if (lower === 'true') return true;
+    if (lower === 'false') return false;
+    if (lower === 'null') return null;
+    return token.text;
+  };
+
+  const parsePredicate = (): QueryNode => {
+    const field = parseField(true);
+    const token = peek();
+    if (isKeyword(token, 'exists')) {
+      next();
+      return { kind: 'exists', field };
+    }
+    if (isKeyword(token, 'in')) {
+      next();
+      expect('punct', '(');
+      const values = [parseValue()];
+      while (peek().text === ',' && peek().kind === 'punct') {
+        next();
+        values.push(parseValue());
+      }
+      expect('punct', ')');
+      return { kind: 'in', field, values };
+    }
+    const op = expect('op').text as QueryOperator;
+    return { kind: 'compare', field, op, value: parseValue() };
+  };
+
+  const parseUnary = (): QueryNode => {
+    if (isKeyword(peek(), 'not')) {
+      next();
+      return { kind: 'not', node: parseUnary() };
+    }
+    if (peek().kind === 'punct' && peek().text === '(') {
+      next();
+      const node = parseOr();
+      expect('punct', ')');
+      return node;
+    }
+    return parsePredicate();
+  };
+
+  const parseAnd = (): QueryNode => {
+    const nodes = [parseUnary()];
+    while (isKeyword(peek(), 'and')) {
+      next();
+      nodes.push(parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'and', nodes };
+  };
+
+  const parseOr = (): QueryNode => {
+    const nodes = [parseAnd()];
+    while (isKeyword(peek(), 'or')) {
+      next();
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'or', nodes };
+  };
+
+  const parseAggregate = (): QueryAggregate => {
+    const token = next();
+    if (isKeyword(token, 'count')) return { fn: 'count' };
+    if (isKeyword(token, 'sum', 'avg', 'min', 'max')) {
+      return { fn: token.text.toLowerCase() as QueryAggregate['fn'], field: parseField(false) };
+    }
+    throw new QuerySyntaxError(`Expected count, sum, avg, min or max, got ${describeToken(token)}`, token.pos);
+  };
+
+  const parseStage = (): QueryStage => {
+    const token = next();
+    if (isKeyword(token, 'sort')) {
+      const field = parseField(false);
+      let desc = false;
+      if (isKeyword(peek(), 'asc', 'desc')) {
+        desc = next().text.toLowerCase() === 'desc';
+      }
+      return { kind: 'sort', field, desc };
+    }
+    if (isKeyword(token, 'limit')) {
+      const count = expect('word');
+      if (!/^\d+$/.test(count.text)) {
+        throw new QuerySyntaxError(`Expected a whole number, got "${count.text}"`, count.pos);
+      }
+      return { kind: 'limit', count: Number(count.text) };
+    }
+    if (isKeyword(token, 'fields')) {
+      const fields = [parseField(false)];
+      while (peek().kind === 'punct' && peek().text === ',') {
+        next();
+        fields.push(parseField(false));
+      }
+      return { kind: 'fields', fields };
+    }
+    if (isKeyword(token, 'group')) {
+      if (isKeyword(peek(), 'by')) next();
+      const field = parseField(false);
+      const aggregates: QueryAggregate[] = [];
+      while (peek().kind !== 'end' && !(peek().kind === 'punct' && peek().text === '|')) {
+        if (aggregates.length > 0 && peek().kind === 'punct' && peek().text === ',') next();
+        aggregates.push(parseAggregate());
+      }
+      return { kind: 'group', field, aggregates: aggregates.length > 0 ? aggregates : [{ fn: 'count' }] };
+    }
+    throw new QuerySyntaxError(`Expected sort, limit, fields or group, got ${describeToken(token)}`, token.pos);
+  };
+
+  let where: QueryNode | undefined;
+  if (peek().kind !== 'end' && !(peek().kind === 'punct' && peek().text === '|')) {
+    where = parseOr();
+  }
+
+  const stages: QueryStage[] = [];
+  while (peek().kind === 'punct' && peek().text === '|') {
+    next();
+    stages.push(parseStage());
+  }
+
+  if (peek().kind !== 'end') {
+    throw new QuerySyntaxError(`Unexpected ${describeToken(peek())}`, peek().pos);
+  }
+
+  return { where, stages };
+}
+
+function tokenizeQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let pos = 0;
+
+  while (pos < query.length) {
+    const char = query[pos];
+    if (/\s/.test(char)) {
+      pos++;
+    } else if (char === '"' || char === "'") {
+      const start = pos;
+      let text = '';
+      pos++;
+      while (pos < query.length && query[pos] !== char) {
+        if (query[pos] === '\\' && pos + 1 < query.length) pos++;
+        text += query[pos++];
+      }
+      if (pos >= query.length) {
+        throw new QuerySyntaxError('Unterminated string', start);
+      }
+      pos++;
+      tokens.push({ kind: 'string', text, pos: start });
+    } else if ('(),|'.includes(char)) {
+      tokens.push({ kind: 'punct', text: char, pos: pos++ });
+    } else {
+      const op = QUERY_OPERATORS.find(candidate => query.startsWith(candidate, pos));
+      if (op) {
+        tokens.push({ kind: 'op', text: op, pos });
+        pos += op.length;
+        continue;
+      }
+      const start = pos;
+      while (pos < query.length && !/[\s(),|"'!=<>~]/.test(query[pos])) pos++;
+      if (pos === start) {
+        throw new QuerySyntaxError(`Unexpected "${char}"`, pos);
+      }
+      tokens.push({ kind: 'word', text: query.slice(start, pos), pos: start });
+    }
+  }
+
+  tokens.push({ kind: 'end', text: '', pos: query.length });
+  return tokens;
+}
+
+function describeToken(token: QueryToken): string {
+  return token.kind === 'end' ? 'end of query' : `"${token.text}"`;
+}
+
+/**
+ * Turn type and ts conditions at the top level of the filter into read
+ * filters, so only the relevant files are opened
+ */
+function pushDownFilters(where?: QueryNode): QueryFilters {
+  const filters: QueryFilters = {};
+  const conditions = !where ? [] : where.kind === 'and' ? where.nodes : [where];
+
+  for (const node of conditions) {
+    if (node.kind !== 'compare' || typeof node.value !== 'string') continue;
+    if (node.field === 'type' && node.op === '=') {
+      filters.eventType = node.value.replace(/\*$/, '').toLowerCase();
+    } else if (node.field === 'ts' && (node.op === '>' || node.op === '>=')) {
+      filters.startDate = node.value;
+    } else if (node.field === 'ts' && (node.op === '<' || node.op === '<=')) {
+      filters.endDate = node.value;
+    }
+  }
+
+  return filters;
+}
+
+function evaluateNode(node: QueryNode, event: BaseEvent): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.nodes.every(child => evaluateNode(child, event));
+    case 'or':
+      return node.nodes.some(child => evaluateNode(child, event));
+    case 'not':
+      return !evaluateNode(node.node, event);
+    case 'exists': {
+      const value = resolveField(event, node.field);
+      return value !== undefined && value !== null;
+    }
+    case 'in':
+      return node.values.some(value => compareValue(resolveField(event, node.field), '=', value));
+    case 'compare':
+      return compareValue(resolveField(event, node.field), node.op, node.value);
+  }
+}
+
+/**
+ * Look up a field on an event or a row produced by an earlier stage
+ */
+function resolveField(row: Record<string, any>, field: string): any {
+  // Own keys only, so "constructor" or "data.toString" is not a function
+  if (Object.hasOwn(row, field)) return row[field];
+  if (Object.hasOwn(DERIVED_FIELDS, field) && typeof row.ts === 'string') return DERIVED_FIELDS[field](row.ts);
+  return field.split('.').reduce((value, key) => (value != null && Object.hasOwn(Object(value), key) ? value[key] : undefined), row);
+}
+
+function compareValue(actual: any, op: QueryOperator, expected: QueryValue): boolean {
+  if (Array.isArray(actual)) {
+    return op === '!='
+      ? !actual.some(item => compareValue(item, '=', expected))
+      : actual.some(item => compareValue(item, op, expected));
+  }
+
+  if (actual === undefined || actual === null) {
+    return op === '=' ? expected === null : op === '!=' ? expected !== null : false;
+  }
+  if (expected === null) {
+    return op === '!=';
+  }
+
+  switch (op) {
+    case '=':
+      return valuesEqual(actual, expected);
+    case '!=':
+      return !valuesEqual(actual, expected);
+    case '~':
+      return String(actual).toLowerCase().includes(String(expected).toLowerCase());
+  }
+
+  const order = orderValues(actual, expected);
+  if (isNaN(order)) return false;
+  switch (op) {
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+  }
+}
+
+function valuesEqual(actual: any, expected: Exclude<QueryValue, null>): boolean {
+  if (typeof expected === 'string' && expected.endsWith('*')) {
+    return String(actual).toLowerCase().startsWith(expected.slice(0, -1).toLowerCase());
+  }
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return actual === expected;
+  }
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+}
+
+/**
+ * Order two values: numerically, by instant for dates and timestamps, or
+ * as strings. Returns NaN if they cannot be compared.
+ */
+function orderValues(a: any, b: any): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  const isDate = (value: any) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}(T|$)/.test(value);
+  if (isDate(a) && isDate(b)) {
+    return toInstant(a) - toInstant(b);
+  }
+  if (typeof a === 'number' || typeof b === 'number') {
+    return NaN;
+  }
+  const left = String(a).toLowerCase();
+  const right = String(b).toLowerCase();
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function applyStage(rows: Record<string, any>[], stage: QueryStage): Record<string, any>[] {
+  switch (stage.kind) {
+    case 'sort': {
+      // Rows without the field go last, whichever the direction
+      const direction = stage.desc ? -1 : 1;
+      return [...rows].sort((a, b) => {
+        const left = resolveField(a, stage.field);
+        const right = resolveField(b, stage.field);
+        if (left === undefined || left === null) return right === undefined || right === null ? 0 : 1;
+        if (right === undefined || right === null) return -1;
+        return (orderValues(left, right) || 0) * direction;
+      });
+    }
+    case 'limit':
+      return rows.slice(0, stage.count);
+    case 'fields':
+      return rows.map(row => Object.fromEntries(stage.fields.map(field => [field, resolveField(row, field)])));
+    case 'group':
+      return groupRows(rows, stage.field, stage.aggregates);
+  }
+}
+
+/**
+ * Group rows by a field, one group per element for array fields
+ */
+function groupRows(rows: Record<string, any>[], field: string, aggregates: QueryAggregate[]): Record<string, any>[] {
+  const groups = new Map<any, Record<string, any>[]>();
+  for (const row of rows) {
+    const value = resolveField(row, field);
+    for (const key of Array.isArray(value) ? value : [value ?? null]) {
+      const members = groups.get(key) || [];
+      members.push(row);
+      groups.set(key, members);
+    }
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === null ? 1 : b === null ? -1 : orderValues(a, b) || 0))
+    .map(([key, members]) => ({ key, ...aggregateGroup(members, aggregates) }));
+}
+
+function aggregateGroup(members: Record<string, any>[], aggregates: QueryAggregate[]): Record<string, any> {
+  const group: Record<string, any> = {};
+  for (const aggregate of aggregates) {
+    if (aggregate.fn === 'count') {
+      group.count = members.length;
+      continue;
+    }
+    const values = members
+      .map(member => resolveField(member, aggregate.field!))
+      .filter((value): value is number => typeof value === 'number');
+    const name = `${aggregate.fn}_${aggregate.field!.replace(/^data\./, '').replace(/\./g, '_')}`;
+    group[name] = aggregateValues(aggregate.fn, values);
+  }
+  return group;
+}
+
+function aggregateValues(fn: QueryAggregate['fn'], values: number[]): number | null {
+  if (fn === 'sum') return round(values.reduce((sum, value) => sum + value, 0), 2);
+  if (values.length === 0) return null;
+  if (fn === 'avg') return round(values.reduce((sum, value) => sum + value, 0) / values.length, 2);
+  return fn === 'min' ? Math.min(...values) : Math.max(...values);
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Take one page of rows, continuing after the cursor of the previous page
+ *
+ * For events the cursor remembers the last event returned, so later pages
+ * stay in place when events are appended or backfilled; other rows (such
+ * as groups) are paged by offset. `next_cursor` is missing on the last page.
+ */
+export function paginate<T extends Record<string, any>>(
+  rows: T[],
+  options?: { cursor?: string; limit?: number }
+): { rows: T[]; total: number; next_cursor?: string } {
+  const limit = options?.limit ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid limit: ${limit}`);
+  }
+
+  let start = 0;
+  if (options?.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (cursor.event_id !== undefined) {
+      const index = rows.findIndex(row => row.event_id === cursor.event_id);
+      // The event may have been retracted since; continue after its time
+      start = index >= 0
+        ? index + 1
+        : rows.filter(row => toInstant(row.ts) <= toInstant(cursor.ts!)).length;
+    } else {
+      start = cursor.offset ?? 0;
+    }
+  }
+
+  const page = rows.slice(start, start + limit);
+  const end = start + page.length;
+  const last = page[page.length - 1];
+
+  let next_cursor: string | undefined;
+  if (end < rows.length) {
+    next_cursor = encodeCursor(
+      last && typeof last.event_id === 'string' && typeof last.ts === 'string'
+        ? { event_id: last.event_id, ts: last.ts }
+        : { offset: end }
+    );
+  }
+
+  return { rows: page, total: rows.length, next_cursor };
+}
+
+interface PageCursor {
+  event_id?: string;
+  ts?: string;
+  offset?: number;
+}
+
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): PageCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (decoded && (typeof decoded.event_id === 'string' || Number.isInteger(decoded.offset))) {
+      return decoded;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Keep only some fields of each row (e.g. ts, type, data.distance_km)
+ */
+export function projectFields(rows: Record<string, any>[], fields: string[]): Record<string, any>[] {
+  return applyStage(rows, { kind: 'fields', fields });
+}
+
+/**
+ * Count rows, optionally per value of a field, with sums and averages
+ *
+ * Without `groupBy` a single row covers everything. Array fields count
+ * toward each of their values.
+ */
+export function aggregateRows(
+  rows: Record<string, any>[],
+  options?: { groupBy?: string; sum?: string[]; avg?: string[] }
+): Record<string, any>[] {
+  const aggregates: QueryAggregate[] = [
+    { fn: 'count' },
+    ...(options?.sum || []).map(field => ({ fn: 'sum' as const, field })),
+    ...(options?.avg || []).map(field => ({ fn: 'avg' as const, field })),
+  ];
+
+  return options?.groupBy
+    ? groupRows(rows, options.groupBy, aggregates)
+    : [aggregateGroup(rows, aggregates)];
 }
@@ -0,0 +1,155 @@
+/**
+ * Referential checks - the tasks, meetings and goals an event points at
+ * must exist, and the event must fit the state they are in
+ *
+ * Run by logEvent on every write unless `force` is set, which backfills
+ * need when history is logged out of order.
+ */
+
+import { getTasks, getGoals } from './query.js';
+import { getMeetings } from './meetings.js';
+import { EventValidationError, editDistance, getEventSchema } from './schema.js';
+import type { ValidationIssue } from './schema.js';
+import type { BaseEvent } from './types.js';
+
+type EntityKind = 'task' | 'meeting' | 'goal';
+
+interface EntityState {
+  id: string;
+  title: string;
+  status: string;
+}
+
+const ENTITY_KINDS: Record<string, EntityKind> = { t: 'task', m: 'meeting', g: 'goal' };
+
+// Data fields that hold the IDs of other entities
+const REFERENCE_FIELDS: Record<string, EntityKind> = { goal_id: 'goal', task_id: 'task', action_items: 'task' };
+
+// The states an entity must be in for each event; events not listed
+// (such as task.updated) apply in any state
+const ALLOWED_FROM: Record<string, string[]> = {
+  'task.started': ['open', 'blocked'],
+  'task.blocked': ['open', 'in_progress'],
+  'task.completed': ['open', 'in_progress', 'blocked'],
+  'task.abandoned': ['open', 'in_progress', 'blocked'],
+  'meeting.scheduled': ['scheduled', 'cancelled'], // Rescheduling
+  'meeting.completed': ['scheduled'],
+  'meeting.cancelled': ['scheduled'],
+  'goal.progress': ['active'],
+  'goal.revised': ['active'],
+  'goal.achieved': ['active'],
+  'goal.abandoned': ['active'],
+};
+
+/**
+ * Check the IDs an event refers to
+ *
+ * The event's own ID must belong to an existing entity in a state the event
+ * applies to, unless the event brings the entity into existence: task.created,
+ * goal.set, meeting.scheduled, or meeting.completed with a title for a
+ * meeting that was never scheduled. IDs in goal_id, task_id and action_items
+ * must exist. Unknown IDs come with suggestions of close matches by ID or
+ * title.
+ */
+export async function checkReferences(event: Pick<BaseEvent, 'type' | 'id' | 'data'>): Promise<ValidationIssue[]> {
+  const refs: { path: string; id: string; kind: EntityKind; own: boolean }[] = [];
+  const prefix = getEventSchema(event.type)?.idPrefix;
+  if (event.id && prefix) {
+    refs.push({ path: 'id', id: event.id, kind: ENTITY_KINDS[prefix], own: true });
+  }
+  for (const [field, kind] of Object.entries(REFERENCE_FIELDS)) {
+    const value = event.data[field];
+    for (const id of Array.isArray(value) ? value : value ? [value] : []) {
+      if (typeof id === 'string') refs.push({ path: `data.${field}`, id, kind, own: false });
+    }
+  }
+
+  const issues: ValidationIssue[] = [];
+  const loaded = new Map<EntityKind, EntityState[]>();
+
+  for (const ref of refs) {
+    const kind = ref.kind;
+    if (!loaded.has(kind)) loaded.set(kind, await loadEntities(kind));
+    const entities = loaded.get(kind)!;
+    const entity = entities.find(e => e.id === ref.id);
+
+    if (entity) {
+      const allowed = ref.own ? ALLOWED_FROM[event.type] : undefined;
+      if (allowed && !allowed.includes(entity.status)) {
+        issues.push({
+          path: ref.path,
+          message: `${kind} ${entity.id} is ${describe(entity.status)}, and ${event.type} ` +
+            `only applies to ${allowed.map(describe).join(', ').replace(/, ([^,]*)$/, ' or $1')} ${kind}s`,
+        });
+      }
+      continue;
+    }
+    // Duplicate IDs for new entities are refused by logEvent itself
+    if (ref.own && opensEntity(event)) continue;
+
+    const matches = closeMatches([ref.id, ref.own ? event.data.title : undefined], entities);
+    issues.push({
+      path: ref.path,
+      message: `no ${kind} ${ref.id} exists` +
+        (matches.length > 0
+          ? ` (did you mean ${matches.map(m => `${m.id} "${m.title}"`).join(' or ')}?)`
+          : ''),
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Throw an EventValidationError if an event refers to IDs that do not
+ * exist or do not fit the event
+ */
+export async function assertValidReferences(event: Pick<BaseEvent, 'type' | 'id' | 'data'>): Promise<void> {
+  const issues = await checkReferences(event);
+  if (issues.length > 0) {
+    throw new EventValidationError(event.type, issues);
+  }
+}
+
+function opensEntity(event: Pick<BaseEvent, 'type' | 'data'>): boolean {
+  return event.type === 'task.created' ||
+    event.type === 'goal.set' ||
+    event.type === 'meeting.scheduled' ||
+    (event.type === 'meeting.completed' && Boolean(event.data.title));
+}
+
+async function loadEntities(kind: EntityKind): Promise<EntityState[]> {
+  switch (kind) {
+    case 'task':
+      return (await getTasks()).map(({ id, title, status }) => ({ id, title, status }));
+    case 'meeting':
+      return (await getMeetings()).map(({ id, title, status }) => ({ id, title, status }));
+    case 'goal':
+      return (await getGoals()).map(({ id, title, status }) => ({ id, title, status }));
+  }
+}
+
+/**
+ * Find up to three entities whose ID or title is close to any of the texts
+ */
+function closeMatches(texts: (string | undefined)[], entities: EntityState[]): EntityState[] {
+  const needles = texts.filter((text): text is string => Boolean(text)).map(text => text.toLowerCase());
+
+  return entities
+    .map(entity => {
+      const title = (entity.title || '').toLowerCase();
+      const distance = Math.min(...needles.map(needle => Math.min(
+        editDistance(needle, entity.id),
+        needle.length >= 3 && title.includes(needle) ? 0 : editDistance(needle, title)
+      )));
+      return { entity, distance };
+    })
+    .filter(match => match.distance <= 3)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(match => match.entity);
+}
+
+function describe(status: string): string {
+  return status.replace('_', ' ');
+}
@@ -0,0 +1,188 @@
+/**
+ * Resources - views and single entities addressed by life:// URIs
+ *
+ * - life://views/<name>, e.g. life://views/open-tasks
+ * - life://views/reviews/<period>, e.g. life://views/reviews/2026-W03
+ * - life://task/<id> and life://goal/<id>
+ * - life://events/<YYYY-MM>, the events of one month
+ *
+ * Everything is generated from the stream when it is read, so a resource
+ * is never stale.
+ */
+
+import { basename } from 'path';
+import { readEvents, partitionFor } from './events.js';
+import { refreshIndex, findFiles } from './event-index.js';
+import { getTasks, getGoalStatus } from './query.js';
+import { parsePeriod } from './periods.js';
+import {
+  generateOpenTasksView,
+  generateGoalsView,
+  generateGoalsArchiveView,
+  generateWeeklyReviewView,
+  generatePeriodReviewView,
+  generateMeetingsView,
+  generateTimesheetView,
+  generatePortfolioView,
+  generateHealthView,
+  generateMentalView,
+  generateCorrelationsView,
+} from './views.js';
+import type { BaseEvent, LifeResource, LifeResourceTemplate, ResourceContents } from './types.js';
+
+const VIEWS: Record<string, { description: string; generate: () => Promise<string> }> = {
+  'open-tasks': { description: 'Open tasks by area, with due dates', generate: generateOpenTasksView },
+  'goals-status': { description: 'Active goals with progress and linked work', generate: generateGoalsView },
+  'goals-archive': { description: 'Achieved and abandoned goals, by year closed', generate: generateGoalsArchiveView },
+  'weekly-review': { description: 'Review of the current ISO week', generate: generateWeeklyReviewView },
+  'meetings': { description: 'Meeting agenda, follow-ups and people', generate: generateMeetingsView },
+  'timesheet': { description: 'Hours worked this month', generate: () => generateTimesheetView() },
+  'portfolio': { description: 'Investment holdings and performance', generate: generatePortfolioView },
+  'health': { description: 'Health trends over the last 30 days', generate: () => generateHealthView() },
+  'mental': { description: 'Mood, energy and stress over the last 30 days', generate: () => generateMentalView() },
+  'correlations': { description: 'Correlations between daily metrics over the last 90 days', generate: () => generateCorrelationsView() },
+};
+
+export const RESOURCE_TEMPLATES: LifeResourceTemplate[] = [
+  {
+    uriTemplate: 'life://task/{id}',
+    name: 'Task',
+    description: 'A task with its status and transitions, e.g. life://task/t-20260112-001',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'life://goal/{id}',
+    name: 'Goal',
+    description: 'A goal with its progress, linked work and history, e.g. life://goal/g-2026-001',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'life://events/{month}',
+    name: 'Events of a month',
+    description: 'All events of a month (YYYY-MM), one JSON object per line',
+    mimeType: 'application/x-ndjson',
+  },
+  {
+    uriTemplate: 'life://views/reviews/{period}',
+    name: 'Period review',
+    description: 'Review of a day, week, month, quarter or year, e.g. life://views/reviews/2026-W03 or 2026-Q1',
+    mimeType: 'text/markdown',
+  },
+];
+
+/**
+ * List the views and the months that have events (newest first)
+ */
+export async function listResources(): Promise<LifeResource[]> {
+  const views: LifeResource[] = Object.entries(VIEWS).map(([name, view]) => ({
+    uri: `life://views/${name}`,
+    name,
+    description: view.description,
+    mimeType: 'text/markdown',
+  }));
+
+  const months: LifeResource[] = (await listEventMonths()).map(month => ({
+    uri: `life://events/${month}`,
+    name: `events ${month}`,
+    mimeType: 'application/x-ndjson',
+  }));
+
+  return [...views, ...months];
+}
+
+/**
+ * Get the months (YYYY-MM) that have events, newest first
+ */
+export async function listEventMonths(): Promise<string[]> {
+  await refreshIndex();
+  const months = new Set(
+    findFiles()
+      .map(file => basename(file, '.jsonl'))
+      .filter(name => /^\d{4}-\d{2}$/.test(name))
+  );
+  return [...months].sort().reverse();
+}
+
+/**
+ * Generate the contents of a resource
+ */
+export async function readResource(uri: string): Promise<ResourceContents> {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const { kind, key } = parsed;
+  switch (kind) {
+    case 'views': {
+      const review = key.match(/^reviews\/(.+)$/);
+      if (review) {
+        return { uri, mimeType: 'text/markdown', text: await generatePeriodReviewView(review[1]) };
+      }
+      const view = VIEWS[key];
+      if (!view) break;
+      return { uri, mimeType: 'text/markdown', text: await view.generate() };
+    }
+
+    case 'task': {
+      const task = (await getTasks()).find(t => t.id === key);
+      if (!task) {
+        throw new Error(`Task not found: ${key}`);
+      }
+      return { uri, mimeType: 'application/json', text: JSON.stringify(task, null, 2) };
+    }
+
+    case 'goal': {
+      const goal = await getGoalStatus(key);
+      if (!goal) {
+        throw new Error(`Goal not found: ${key}`);
+      }
+      return { uri, mimeType: 'application/json', text: JSON.stringify(goal, null, 2) };
+    }
+
+    case 'events': {
+      const period = parsePeriod(key);
+      if (period.kind !== 'month') break;
+      // Events are filed by local month, which the instant range can overshoot
+      const events = (await readEvents({ startDate: period.start, endDate: period.end }))
+        .filter(event => partitionFor(event.ts) === key);
+      return {
+        uri,
+        mimeType: 'application/x-ndjson',
+        text: events.map(event => JSON.stringify(event)).join('\n'),
+      };
+    }
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+/**
+ * Pick the resources that an appended event may have changed
+ */
+export function resourcesAffectedBy(event: BaseEvent, uris: Iterable<string>): string[] {
+  return [...uris].filter(uri => {
+    const parsed = parseResourceUri(uri);
+    if (!parsed) return false;
+
+    // A correction or retraction can change any earlier event
+    if (event.type === 'event.corrected' || event.type === 'event.retracted') return true;
+
+    const { kind, key } = parsed;
+    switch (kind) {
+      case 'task':
+        return event.id === key;
+      case 'events':
+        return partitionFor(event.ts) === key;
+      default:
+        // Views summarize many kinds of event, and goal progress is
+        // counted from exercise, work and other events
+        return true;
+    }
+  });
+}
+
+function parseResourceUri(uri: string): { kind: string; key: string } | null {
+  const match = uri.match(/^life:\/\/(views|task|goal|events)\/(.+)$/);
+  return match ? { kind: match[1], key: decodeURIComponent(match[2]) } : null;
+}
@@ -0,0 +1,438 @@
+/**
+ * Runtime schema registry for event types
+ *
+ * Mirrors the data interfaces in types.ts so every write path can reject
+ * malformed events before they reach the stream. Unknown data fields are
+ * allowed (the schema is meant to evolve), but known fields are checked for
+ * type, enum membership and numeric range.
+ */
+
+import type { BaseEvent, IDPrefix } from './types.js';
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'datetime' | 'string[]' | 'object';
+
+export interface FieldSchema {
+  type: FieldType | FieldType[];
+  description: string;
+  enum?: readonly string[];
+  min?: number;
+  max?: number;
+}
+
+export interface EventSchema {
+  description: string;
+  fields: Record<string, FieldSchema>;
+  required?: string[];
+  idPrefix?: IDPrefix; // Entity events must carry an ID with this prefix
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when an event does not match its schema
+ */
+export class EventValidationError extends Error {
+  readonly eventType: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(eventType: string, issues: ValidationIssue[]) {
+    const details = issues.map(i => `${i.path}: ${i.message}`).join('; ');
+    super(`Invalid ${eventType || 'event'}: ${details}`);
+    this.name = 'EventValidationError';
+    this.eventType = eventType;
+    this.issues = issues;
+  }
+}
+
+// Field definitions, one set per data interface in types.ts
+
+const TASK_FIELDS: Record<string, FieldSchema> = {
+  title: { type: 'string', description: 'What the task is' },
+  area: { type: 'string', description: 'work | personal | project name' },
+  project: { type: 'string', description: 'Optional grouping' },
+  due: { type: 'date', description: 'Due date (YYYY-MM-DD)' },
+  priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'], description: 'Task priority' },
+  reason: { type: 'string', description: 'Why the task was blocked or abandoned' },
+  notes: { type: 'string', description: 'Free-form notes' },
+  goal_id: { type: 'string', description: 'Goal this contributes to (g-YYYY-NNN)' },
+};
+
+const MEETING_FIELDS: Record<string, FieldSchema> = {
+  title: { type: 'string', description: 'Meeting subject' },
+  start: { type: 'datetime', description: 'When the meeting takes place (ISO 8601)' },
+  with: { type: 'string[]', description: 'Participants or groups' },
+  duration_min: { type: 'number', min: 0, description: 'Planned or actual duration in minutes' },
+  location: { type: 'string', description: 'Physical location or video platform' },
+  notes: { type: 'string', description: 'What was discussed or decided' },
+  action_items: { type: 'string[]', description: 'Task IDs spawned from the meeting' },
+  energy: { type: 'string', enum: ['high', 'neutral', 'draining'], description: 'How the meeting felt' },
+  reason: { type: 'string', description: 'Why the meeting was cancelled' },
+};
+
+const EXERCISE_FIELDS: Record<string, FieldSchema> = {
+  activity: {
+    type: 'string',
+    enum: ['run', 'cycle', 'swim', 'strength', 'walk', 'ski', 'other'],
+    description: 'Kind of activity',
+  },
+  duration_min: { type: 'number', min: 0, description: 'Length of activity in minutes' },
+  distance_km: { type: 'number', min: 0, description: 'Distance in kilometres' },
+  avg_hr: { type: 'number', min: 20, max: 250, description: 'Average heart rate (bpm)' },
+  notes: { type: 'string', description: 'Subjective notes' },
+  strava_id: { type: 'string', description: 'Reference to the Strava activity' },
+  goal_id: { type: 'string', description: 'Goal this contributes to (g-YYYY-NNN)' },
+};
+
+const INVESTMENT_FIELDS: Record<string, FieldSchema> = {
+  asset: { type: 'string', description: 'Ticker or asset name' },
+  quantity: { type: 'number', min: 0, description: 'Units bought or sold' },
+  price_nok: { type: 'number', min: 0, description: 'Price per unit in NOK' },
+  account: { type: 'string', description: 'Account (nordnet-ask, firi, ...)' },
+  realized_gain_nok: { type: 'number', description: 'Gain or loss on a sale' },
+  total_nok: { type: 'number', min: 0, description: 'Total value in NOK' },
+  breakdown: { type: 'object', description: 'Value by category' },
+};
+
+const HEALTH_FIELDS: Record<string, FieldSchema> = {
+  value: { type: 'number', min: 0, description: 'Measured value (weight)' },
+  unit: { type: 'string', description: 'Unit of the value (kg, lb)' },
+  duration_min: { type: 'number', min: 0, max: 1440, description: 'Sleep duration in minutes' },
+  quality: { type: ['string', 'number'], description: 'Sleep quality or efficiency' },
+  deep_min: { type: 'number', min: 0, max: 1440, description: 'Deep sleep in minutes' },
+  rem_min: { type: 'number', min: 0, max: 1440, description: 'REM sleep in minutes' },
+  systolic: { type: 'number', min: 50, max: 260, description: 'Systolic pressure (mmHg)' },
+  diastolic: { type: 'number', min: 30, max: 160, description: 'Diastolic pressure (mmHg)' },
+  note: { type: 'string', description: 'Freeform health note' },
+  fitbit_id: { type: 'string', description: 'Reference to the Fitbit log entry' },
+};
+
+const MENTAL_FIELDS: Record<string, FieldSchema> = {
+  mood: { type: 'number', min: 1, max: 10, description: 'Mood (1-10)' },
+  energy: { type: 'number', min: 1, max: 10, description: 'Energy (1-10)' },
+  anxiety: { type: 'number', min: 0, max: 10, description: 'Anxiety (0-10)' },
+  notes: { type: 'string', description: 'Free-form notes' },
+  items: { type: 'string[]', description: 'Things to be grateful for' },
+  trigger: { type: 'string', description: 'What prompted the reflection' },
+  thought: { type: 'string', description: 'The thought being processed' },
+  reframe: { type: 'string', description: 'A more helpful way to see it' },
+};
+
+const WORK_FIELDS: Record<string, FieldSchema> = {
+  project: { type: 'string', description: 'Project or client name' },
+  task_id: { type: 'string', description: 'Optional link to a task' },
+  duration_min: { type: 'number', min: 0, description: 'Time spent in minutes' },
+  description: { type: 'string', description: 'What was done' },
+  billable: { type: 'boolean', description: 'Whether the time is billable' },
+  goal_id: { type: 'string', description: 'Goal this contributes to (g-YYYY-NNN)' },
+};
+
+const GOAL_FIELDS: Record<string, FieldSchema> = {
+  title: { type: 'string', description: 'The goal' },
+  horizon: {
+    type: 'string',
+    enum: ['week', 'month', 'quarter', 'year', 'ongoing'],
+    description: 'Time horizon',
+  },
+  area: { type: 'string', description: 'Life area this relates to' },
+  target_date: { type: 'date', description: 'When to achieve by (YYYY-MM-DD)' },
+  success_criteria: { type: 'string', description: 'How to know it is done' },
+  status: { type: 'string', enum: ['on_track', 'at_risk', 'behind'], description: 'Progress status' },
+  reason: { type: 'string', description: 'Why the goal was abandoned or revised' },
+  notes: { type: 'string', description: 'Progress notes' },
+  metric: {
+    type: 'string',
+    enum: ['distance_km', 'exercise_min', 'exercise_sessions', 'work_hours', 'tasks_completed'],
+    description: 'What to measure for a measurable goal',
+  },
+  target_value: { type: 'number', min: 0, description: 'Amount of the metric that achieves the goal' },
+  unit: { type: 'string', description: 'Unit to display with the metric' },
+  filters: { type: 'object', description: 'Fields that matching events must have, e.g. {"activity": "run"}' },
+  start_date: { type: 'date', description: 'Count progress from this date (defaults to when the goal was set)' },
+};
+
+const META_FIELDS: Record<string, FieldSchema> = {
+  target: { type: 'string', description: 'event_id of the event being amended' },
+  changes: { type: 'object', description: 'Data fields to overwrite (null removes a field)' },
+  ts: { type: 'datetime', description: 'Corrected ISO 8601 timestamp' },
+  reason: { type: 'string', description: 'Why the event is being amended' },
+};
+
+/**
+ * Schema for every known event type
+ */
+export const EVENT_SCHEMAS: Record<string, EventSchema> = {
+  'task.created': { description: 'New task added', fields: TASK_FIELDS, required: ['title'], idPrefix: 't' },
+  'task.started': { description: 'Work begun on task', fields: TASK_FIELDS, idPrefix: 't' },
+  'task.blocked': { description: 'Task blocked, with reason', fields: TASK_FIELDS, idPrefix: 't' },
+  'task.completed': { description: 'Task finished', fields: TASK_FIELDS, idPrefix: 't' },
+  'task.abandoned': { description: 'Task dropped, with reason', fields: TASK_FIELDS, idPrefix: 't' },
+  'task.updated': { description: 'Task details changed', fields: TASK_FIELDS, idPrefix: 't' },
+
+  'meeting.scheduled': { description: 'Meeting planned', fields: MEETING_FIELDS, required: ['title'], idPrefix: 'm' },
+  'meeting.completed': { description: 'Meeting finished, with notes', fields: MEETING_FIELDS, idPrefix: 'm' },
+  'meeting.cancelled': { description: "Meeting didn't happen", fields: MEETING_FIELDS, idPrefix: 'm' },
+
+  'exercise.completed': { description: 'Workout finished', fields: EXERCISE_FIELDS, required: ['activity'] },
+  'exercise.planned': { description: 'Future workout scheduled', fields: EXERCISE_FIELDS, required: ['activity'] },
+
+  'investment.buy': {
+    description: 'Asset purchased',
+    fields: INVESTMENT_FIELDS,
+    required: ['asset', 'quantity', 'price_nok'],
+  },
+  'investment.sell': {
+    description: 'Asset sold',
+    fields: INVESTMENT_FIELDS,
+    required: ['asset', 'quantity', 'price_nok'],
+  },
+  'investment.dividend': { description: 'Dividend received', fields: INVESTMENT_FIELDS, required: ['asset'] },
+  'investment.snapshot': {
+    description: 'Point-in-time portfolio value',
+    fields: INVESTMENT_FIELDS,
+    required: ['total_nok'],
+  },
+
+  'health.weight': { description: 'Weight measurement', fields: HEALTH_FIELDS, required: ['value'] },
+  'health.sleep': { description: 'Sleep session', fields: HEALTH_FIELDS, required: ['duration_min'] },
+  'health.blood_pressure': {
+    description: 'BP reading',
+    fields: HEALTH_FIELDS,
+    required: ['systolic', 'diastolic'],
+  },
+  'health.note': { description: 'Freeform health note', fields: HEALTH_FIELDS, required: ['note'] },
+
+  'mental.checkin': { description: 'Regular mood/energy snapshot', fields: MENTAL_FIELDS },
+  'mental.gratitude': { description: 'Things to be grateful for', fields: MENTAL_FIELDS, required: ['items'] },
+  'mental.reflection': { description: 'Processing a specific situation', fields: MENTAL_FIELDS, required: ['thought'] },
+
+  'work.started': { description: 'Begin a work session', fields: WORK_FIELDS },
+  'work.stopped': { description: 'End a work session', fields: WORK_FIELDS },
+  'work.logged': { description: 'After-the-fact time entry', fields: WORK_FIELDS, required: ['duration_min'] },
+
+  'goal.set': { description: 'New goal established', fields: GOAL_FIELDS, required: ['title'], idPrefix: 'g' },
+  'goal.progress': { description: 'Progress update', fields: GOAL_FIELDS, idPrefix: 'g' },
+  'goal.revised': { description: 'Goal scope/timeline changed', fields: GOAL_FIELDS, idPrefix: 'g' },
+  'goal.achieved': { description: 'Goal completed', fields: GOAL_FIELDS, idPrefix: 'g' },
+  'goal.abandoned': { description: 'Goal dropped', fields: GOAL_FIELDS, idPrefix: 'g' },
+
+  'event.corrected': { description: 'Earlier event amended', fields: META_FIELDS, required: ['target'] },
+  'event.retracted': { description: 'Earlier event withdrawn', fields: META_FIELDS, required: ['target'] },
+};
+
+export const EVENT_TYPES = Object.keys(EVENT_SCHEMAS);
+
+/**
+ * Get the schema for an event type, if it is known
+ */
+export function getEventSchema(eventType: string): EventSchema | undefined {
+  return EVENT_SCHEMAS[eventType];
+}
+
+/**
+ * Validate an event against its schema
+ *
+ * Returns a list of issues; an empty list means the event is valid.
+ */
+export function validateEvent(event: BaseEvent): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (typeof event.ts !== 'string' || isNaN(Date.parse(event.ts))) {
+    issues.push({ path: 'ts', message: `expected an ISO 8601 timestamp, got ${JSON.stringify(event.ts)}` });
+  }
+  if (typeof event.source !== 'string' || event.source.length === 0) {
+    issues.push({ path: 'source', message: 'expected a non-empty string' });
+  }
+  if (event.data === null || typeof event.data !== 'object' || Array.isArray(event.data)) {
+    issues.push({ path: 'data', message: 'expected an object' });
+    return issues;
+  }
+
+  const schema = getEventSchema(event.type);
+  if (!schema) {
+    const suggestion = suggestEventType(event.type);
+    issues.push({
+      path: 'type',
+      message: `unknown event type ${JSON.stringify(event.type)}` +
+        (suggestion ? ` (did you mean ${suggestion}?)` : ''),
+    });
+    return issues;
+  }
+
+  if (schema.idPrefix) {
+    if (!event.id) {
+      issues.push({ path: 'id', message: `${event.type} events require an ID (${schema.idPrefix}-...)` });
+    } else if (!event.id.startsWith(`${schema.idPrefix}-`)) {
+      issues.push({ path: 'id', message: `expected an ID starting with "${schema.idPrefix}-", got "${event.id}"` });
+    }
+  }
+
+  for (const field of schema.required || []) {
+    const value = event.data[field];
+    if (value === undefined || value === null || value === '') {
+      issues.push({ path: `data.${field}`, message: 'is required' });
+    }
+  }
+
+  for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+    const value = event.data[field];
+    if (value === undefined || value === null) continue;
+    const issue = checkField(value, fieldSchema);
+    if (issue) {
+      issues.push({ path: `data.${field}`, message: issue });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate an event and throw an EventValidationError if it is invalid
+ */
+export function assertValidEvent(event: BaseEvent): void {
+  const issues = validateEvent(event);
+  if (issues.length > 0) {
+    throw new EventValidationError(event.type, issues);
+  }
+}
+
+/**
+ * Check a single value against its field schema
+ */
+function checkField(value: unknown, schema: FieldSchema): string | null {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (!types.some(t => matchesType(value, t))) {
+    return `expected ${types.join(' or ')}, got ${JSON.stringify(value)}`;
+  }
+
+  if (schema.enum && typeof value === 'string' && !schema.enum.includes(value)) {
+    return `must be one of ${schema.enum.join(', ')}, got "${value}"`;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.min !== undefined && value < schema.min) {
+      return `must be at least ${schema.min}, got ${value}`;
+    }
+    if (schema.max !== undefined && value > schema.max) {
+      return `must be at most ${schema.max}, got ${value}`;
+    }
+  }
+
+  return null;
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value));
+    case 'datetime':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) && !isNaN(Date.parse(value));
+    case 'string[]':
+      return Array.isArray(value) && value.every(v => typeof v === 'string');
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+  }
+}
+
+/**
+ * Suggest the closest known event type for a typo (e.g. task.complete)
+ */
+function suggestEventType(eventType: string): string | null {
+  if (typeof eventType !== 'string') return null;
+
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const known of EVENT_TYPES) {
+    const distance = editDistance(eventType, known);
+    if (distance < bestDistance) {
+      best = known;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= 3 ? best : null;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = a[i - 1] === b[j - 1]
+        ? diagonal
+        : 1 + Math.min(diagonal, prev[j - 1], prev[j]);
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+}
+
+/**
+ * Build a JSON Schema for the data of an event type
+ *
+ * Used for MCP tool input schemas so the model sees the same field types,
+ * enums and ranges that validation enforces.
+ */
+export function dataJsonSchema(
+  eventType: string,
+  fields?: string[]
+): { type: 'object'; properties: Record<string, any>; required?: string[] } {
+  const schema = getEventSchema(eventType);
+  if (!schema) {
+    throw new Error(`Unknown event type: ${eventType}`);
+  }
+
+  const names = fields || Object.keys(schema.fields);
+  const properties: Record<string, any> = {};
+  for (const name of names) {
+    const field = schema.fields[name];
+    if (field) {
+      properties[name] = fieldJsonSchema(field);
+    }
+  }
+
+  const required = (schema.required || []).filter(f => names.includes(f));
+  return required.length > 0
+    ? { type: 'object', properties, required }
+    : { type: 'object', properties };
+}
+
+function fieldJsonSchema(field: FieldSchema): Record<string, any> {
+  const types = Array.isArray(field.type) ? field.type : [field.type];
+  const variants = types.map(type => {
+    switch (type) {
+      case 'date':
+        return { type: 'string', format: 'date' };
+      case 'datetime':
+        return { type: 'string', format: 'date-time' };
+      case 'string[]':
+        return { type: 'array', items: { type: 'string' } };
+      default:
+        return { type };
+    }
+  });
+
+  const json: Record<string, any> = variants.length === 1
+    ? { ...variants[0] }
+    : { type: variants.map(v => v.type) };
+  json.description = field.description;
+  if (field.enum) json.enum = [...field.enum];
+  if (field.min !== undefined) json.minimum = field.min;
+  if (field.max !== undefined) json.maximum = field.max;
+  return json;
+}
@@ -0,0 +1,392 @@
+/**
+ * Full-text search over the free text in events
+ *
+ * Builds an inverted index over titles, notes, reflections and other text
+ * fields. Every word is indexed as written and under its English and
+ * Norwegian stem, since entries are written in either language, so
+ * "running" finds "run" and "møtene" finds "møte". The index is kept in
+ * memory and rebuilt when the event files change.
+ */
+
+import { readEvents, matchesFilters } from './events.js';
+import { refreshIndex, findFiles, getFileEntry } from './event-index.js';
+import { dayKey, compareTimestamps } from './dates.js';
+import type { BaseEvent, QueryFilters, SearchHit, SearchResult } from './types.js';
+
+// Free-text data fields that are indexed, in the order snippets prefer them
+const TEXT_FIELDS = [
+  'title',
+  'notes',
+  'note',
+  'description',
+  'thought',
+  'reframe',
+  'trigger',
+  'items',
+  'success_criteria',
+  'reason',
+  'with',
+  'location',
+  'project',
+  'area',
+  'asset',
+];
+
+// Matches in these fields count for more when ranking
+const FIELD_BOOST: Record<string, number> = { title: 2 };
+
+// Keeps phrases from matching across the end of one field and the next
+const FIELD_GAP = 100;
+
+const DEFAULT_LIMIT = 20;
+const SNIPPET_WORDS_BEFORE = 6;
+const SNIPPET_WORDS = 20;
+
+interface IndexedField {
+  field: string;
+  text: string;
+  start: number; // Position of the field's first word in the document
+  length: number; // Number of words
+}
+
+interface IndexedDoc {
+  event: BaseEvent;
+  fields: IndexedField[];
+}
+
+interface SearchIndex {
+  docs: IndexedDoc[];
+  postings: Map<string, Map<number, number[]>>; // Key -> document -> word positions
+}
+
+interface SearchClause {
+  kind: 'term' | 'prefix' | 'phrase';
+  words: string[];
+  negate: boolean;
+}
+
+let cached: { signature: string; index: SearchIndex } | null = null;
+
+/**
+ * Search the free text of events
+ *
+ * Words must all match (in any text field); "quoted phrases" must match in
+ * order, a trailing * matches a prefix (plan* finds planning) and a
+ * leading - excludes events with that word. Results can be narrowed with
+ * the usual query filters and are ranked by how rare and how frequent the
+ * matched words are, with title matches counting double.
+ */
+export async function searchEvents(
+  query: string,
+  options?: { filters?: QueryFilters; asOf?: string; limit?: number }
+): Promise<SearchResult> {
+  const clauses = parseSearchQuery(query);
+  if (!clauses.some(clause => !clause.negate)) {
+    throw new Error('Search for at least one word');
+  }
+
+  const index = options?.asOf
+    ? buildIndex(await readEvents(undefined, { asOf: options.asOf }))
+    : await getIndex();
+
+  const positives = clauses.filter(clause => !clause.negate);
+  const matches = positives.map(clause => matchClause(index, clause));
+  const excluded = new Set(
+    clauses.filter(clause => clause.negate).flatMap(clause => [...matchClause(index, clause).keys()])
+  );
+
+  const hits: SearchHit[] = [];
+  for (const doc of matches[0].keys()) {
+    if (excluded.has(doc) || !matches.every(match => match.has(doc))) continue;
+
+    const { event } = index.docs[doc];
+    if (!matchesFilters(event, options?.filters)) continue;
+
+    let score = 0;
+    const positions: number[] = [];
+    matches.forEach((match, i) => {
+      const starts = match.get(doc)!;
+      const idf = Math.log(1 + index.docs.length / match.size);
+      const boost = Math.max(...starts.map(p => FIELD_BOOST[fieldAt(index.docs[doc], p).field] || 1));
+      score += idf * (1 + Math.log(starts.length)) * boost;
+      for (const start of starts) {
+        for (let k = 0; k < positives[i].words.length; k++) positions.push(start + k);
+      }
+    });
+
+    const snippet = makeSnippet(index.docs[doc], positions);
+    hits.push({
+      event,
+      type: event.type,
+      date: dayKey(event.ts),
+      score: Math.round(score * 1000) / 1000,
+      field: snippet.field,
+      snippet: snippet.text,
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score || compareTimestamps(b.event.ts, a.event.ts));
+
+  return {
+    query,
+    total: hits.length,
+    hits: hits.slice(0, options?.limit ?? DEFAULT_LIMIT),
+  };
+}
+
+/**
+ * Get the search index, rebuilding it if any event file changed
+ */
+async function getIndex(): Promise<SearchIndex> {
+  await refreshIndex();
+  const signature = findFiles()
+    .map(file => {
+      const entry = getFileEntry(file)!;
+      return `${file}:${entry.size}:${entry.mtimeMs}`;
+    })
+    .join('|');
+
+  if (!cached || cached.signature !== signature) {
+    cached = { signature, index: buildIndex(await readEvents()) };
+  }
+  return cached.index;
+}
+
+function buildIndex(events: BaseEvent[]): SearchIndex {
+  const index: SearchIndex = { docs: [], postings: new Map() };
+
+  events.forEach((event, doc) => {
+    const indexed: IndexedDoc = { event, fields: [] };
+    let position = 0;
+
+    for (const field of TEXT_FIELDS) {
+      const value = event.data?.[field];
+      const text = Array.isArray(value)
+        ? value.filter(item => typeof item === 'string').join(', ')
+        : typeof value === 'string' ? value : '';
+      const words = tokenize(text);
+      if (words.length === 0) continue;
+
+      indexed.fields.push({ field, text, start: position, length: words.length });
+      words.forEach((word, i) => {
+        for (const key of indexKeys(word)) {
+          let docs = index.postings.get(key);
+          if (!docs) index.postings.set(key, (docs = new Map()));
+          const positions = docs.get(doc);
+          if (positions) positions.push(position + i);
+          else docs.set(doc, [position + i]);
+        }
+      });
+      position += words.length + FIELD_GAP;
+    }
+
+    index.docs.push(indexed);
+  });
+
+  return index;
+}
+
+/**
+ * Index keys for a word: as written, and its English and Norwegian stems
+ */
+function indexKeys(word: string): string[] {
+  return [`w:${word}`, ...stemKeys(word)];
+}
+
+function stemKeys(word: string): string[] {
+  return [`en:${stemEnglish(word)}`, `no:${stemNorwegian(word)}`];
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Split a search into words, "phrases", prefix* words and -exclusions
+ */
+function parseSearchQuery(query: string): SearchClause[] {
+  const clauses: SearchClause[] = [];
+
+  for (const match of query.matchAll(/(-?)"([^"]*)"?|(-?)(\S+)/g)) {
+    const negate = (match[1] || match[3]) === '-';
+    const raw = match[2] ?? match[4];
+    const words = tokenize(raw);
+    if (words.length === 0) continue;
+
+    if (match[4] !== undefined && raw.endsWith('*') && words.length === 1) {
+      clauses.push({ kind: 'prefix', words, negate });
+    } else {
+      clauses.push({ kind: words.length > 1 ? 'phrase' : 'term', words, negate });
+    }
+  }
+
+  return clauses;
+}
+
+/**
+ * Find the documents a clause matches, with the positions it starts at
+ */
+function matchClause(index: SearchIndex, clause: SearchClause): Map<number, number[]> {
+  if (clause.kind === 'prefix') {
+    const result = new Map<number, number[]>();
+    for (const [key, docs] of index.postings) {
+      if (!key.startsWith(`w:${clause.words[0]}`)) continue;
+      for (const [doc, positions] of docs) {
+        result.set(doc, [...(result.get(doc) || []), ...positions]);
+      }
+    }
+    return result;
+  }
+
+  // Each word matches through either of its stems
+  const perWord = clause.words.map(word => {
+    const result = new Map<number, Set<number>>();
+    for (const key of stemKeys(word)) {
+      for (const [doc, positions] of index.postings.get(key) || []) {
+        const set = result.get(doc) || new Set<number>();
+        positions.forEach(p => set.add(p));
+        result.set(doc, set);
+      }
+    }
+    return result;
+  });
+
+  const result = new Map<number, number[]>();
+  for (const [doc, firstPositions] of perWord[0]) {
+    const starts = [...firstPositions]
+      .filter(start => perWord.every((positions, k) => positions.get(doc)?.has(start + k)))
+      .sort((a, b) => a - b);
+    if (starts.length > 0) result.set(doc, starts);
+  }
+  return result;
+}
+
+function fieldAt(doc: IndexedDoc, position: number): IndexedField {
+  return doc.fields.find(f => position >= f.start && position < f.start + f.length) || doc.fields[0];
+}
+
+/**
+ * Cut a window of text around the first match, with matched words in bold
+ */
+function makeSnippet(doc: IndexedDoc, positions: number[]): { field: string; text: string } {
+  const first = Math.min(...positions);
+  const field = fieldAt(doc, first);
+  const matched = new Set(positions.map(p => p - field.start));
+
+  const words = [...field.text.matchAll(/[\p{L}\p{N}]+/gu)];
+  const from = Math.max(0, first - field.start - SNIPPET_WORDS_BEFORE);
+  const to = Math.min(words.length, from + SNIPPET_WORDS);
+
+  let text = from > 0 ? '…' : '';
+  for (let i = from; i < to; i++) {
+    const word = words[i];
+    const next = i + 1 < to ? words[i + 1].index! : word.index! + word[0].length;
+    const between = field.text.slice(word.index! + word[0].length, next);
+    text += matched.has(i) ? `**${word[0]}**${between}` : `${word[0]}${between}`;
+  }
+  if (to < words.length) {
+    text += '…';
+  } else if (to > from) {
+    const last = words[to - 1];
+    text += field.text.slice(last.index! + last[0].length);
+  }
+
+  return { field: field.field, text: text.replace(/\s+/g, ' ').trim() };
+}
+
+/**
+ * Light English stemmer: plurals, -ed/-ing and common derivational endings
+ */
+export function stemEnglish(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let w = word;
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -2);
+  else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+  for (const suffix of ['ingly', 'edly', 'ing', 'ed']) {
+    if (!w.endsWith(suffix)) continue;
+    const stem = w.slice(0, -suffix.length);
+    if (!w.endsWith('eed') && stem.length >= 2 && /[aeiouy]/.test(stem)) {
+      // running -> runn -> run
+      w = /([^aeiouylsz])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+    }
+    break;
+  }
+
+  const endings: [string, string][] = [
+    ['ational', 'ate'],
+    ['tional', 'tion'],
+    ['ization', 'ize'],
+    ['fulness', 'ful'],
+    ['ousness', 'ous'],
+    ['iveness', 'ive'],
+    ['fully', 'ful'],
+    ['ness', ''],
+    ['ment', ''],
+    ['ly', ''],
+  ];
+  for (const [suffix, replacement] of endings) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 4) {
+      w = w.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  if (w.endsWith('y') && w.length > 3 && !/[aeiou]y$/.test(w)) w = `${w.slice(0, -1)}i`;
+  if (w.endsWith('e') && w.length > 4) w = w.slice(0, -1);
+  return w;
+}
+
+const NORWEGIAN_VOWELS = 'aeiouyæåø';
+
+const NORWEGIAN_SUFFIXES = [
+  'hetenes', 'hetene', 'hetens', 'heten', 'heter', 'endes', 'ande', 'ende', 'edes', 'enes', 'erte',
+  'ede', 'ane', 'ene', 'ens', 'ers', 'ets', 'het', 'ast', 'ert', 'en', 'ar', 'er', 'as', 'es', 'et',
+  'a', 'e', 's',
+];
+
+const NORWEGIAN_DERIVATIONAL = ['hetslov', 'eleg', 'elig', 'elov', 'slov', 'leg', 'eig', 'lig', 'els', 'lov', 'ig'];
+
+/**
+ * Norwegian (bokmål) stemmer, after the Snowball algorithm
+ */
+export function stemNorwegian(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  // R1 starts after the first consonant that follows a vowel, at least at 3
+  let r1 = word.length;
+  for (let i = 1; i < word.length; i++) {
+    if (!NORWEGIAN_VOWELS.includes(word[i]) && NORWEGIAN_VOWELS.includes(word[i - 1])) {
+      r1 = Math.max(i + 1, 3);
+      break;
+    }
+  }
+
+  // Suffix lists are longest first, so this finds the longest one within R1
+  const suffixInR1 = (w: string, suffixes: string[]) => suffixes.find(s => w.slice(r1).endsWith(s));
+
+  let w = word;
+  const suffix = suffixInR1(w, NORWEGIAN_SUFFIXES);
+  if (suffix) {
+    const stem = w.slice(0, -suffix.length);
+    if (suffix === 'erte' || suffix === 'ert') {
+      w = `${stem}er`;
+    } else if (suffix === 's') {
+      const last = stem[stem.length - 1];
+      const validEnding = 'bcdfghjlmnoprtvyz'.includes(last)
+        || (last === 'k' && !NORWEGIAN_VOWELS.includes(stem[stem.length - 2]));
+      if (validEnding) w = stem;
+    } else {
+      w = stem;
+    }
+  }
+
+  if (/(dt|vt)$/.test(w) && w.length - 2 >= r1) w = w.slice(0, -1);
+
+  const derivational = suffixInR1(w, NORWEGIAN_DERIVATIONAL);
+  if (derivational) w = w.slice(0, -derivational.length);
+
+  return w;
+}
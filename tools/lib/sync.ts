@@ -2,48 +2,25 @@
  * Sync utilities for external service integrations
  */
 
-import { readdir, readFile, writeFile, mkdir } from 'fs/promises';
+import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
+import { quarantineEvent, generateEventId, partitionFor, notifyEventAppended } from './events.js';
+import { refreshIndex, refreshFile, saveIndex, findFiles, readIndexedFile, hasRef, latestTimestamp } from './event-index.js';
+import { withLock } from './lock.js';
+import { SYNCED_DIR } from './paths.js';
+import { validateEvent } from './schema.js';
+import { normalizeTimestamp, toInstant } from './dates.js';
 import type { BaseEvent } from './types.js';
 
-/**
- * Get the base directory for synced data
- */
-function getSyncedDir(): string {
-  return process.env.LIFE_DIR
-    ? join(process.env.LIFE_DIR, 'synced')
-    : join(process.cwd(), 'synced');
-}
-
 /**
  * Get all events from a specific sync source
  */
 export async function readSyncedEvents(source: string): Promise<BaseEvent[]> {
-  const syncDir = join(getSyncedDir(), source);
-  const events: BaseEvent[] = [];
+  await refreshIndex();
 
-  try {
-    const files = await readdir(syncDir);
-    const jsonlFiles = files.filter(f => f.endsWith('.jsonl')).sort();
-
-    for (const file of jsonlFiles) {
-      const content = await readFile(join(syncDir, file), 'utf-8');
-      const lines = content.trim().split('\n').filter(line => line.length > 0);
-
-      for (const line of lines) {
-        try {
-          const event = JSON.parse(line);
-          events.push(event);
-        } catch (err) {
-          console.warn(`Warning: Failed to parse line in ${file}:`, line);
-        }
-      }
-    }
-  } catch (err: any) {
-    if (err.code !== 'ENOENT') {
-      throw err;
-    }
-    // Directory doesn't exist yet - that's fine
+  const events: BaseEvent[] = [];
+  for (const file of findFiles(undefined, `synced/${source}`)) {
+    events.push(...await readIndexedFile(file));
   }
 
   return events;
@@ -53,38 +30,58 @@ export async function readSyncedEvents(source: string): Promise<BaseEvent[]> {
  * Check if an event with a specific external ID already exists
  */
 export async function eventExists(source: string, externalIdField: string, externalId: string): Promise<boolean> {
-  const events = await readSyncedEvents(source);
-  return events.some(e => e.data[externalIdField] === externalId);
+  await refreshIndex();
+  return hasRef(`synced/${source}`, externalIdField, externalId);
 }
 
 /**
  * Write a synced event to the appropriate monthly file
+ *
+ * Events that fail schema validation are quarantined instead of aborting
+ * the sync. The timestamp is normalized to the home timezone's offset
+ * before writing. Returns true if the event was written to the stream.
  */
-export async function writeSyncedEvent(source: string, event: BaseEvent): Promise<void> {
-  const syncDir = join(getSyncedDir(), source);
+export async function writeSyncedEvent(source: string, event: BaseEvent): Promise<boolean> {
+  const issues = validateEvent(event);
+  if (issues.length > 0) {
+    console.warn(`Warning: Quarantined invalid ${event.type} event from ${source}:`,
+      issues.map(i => `${i.path} ${i.message}`).join('; '));
+    await quarantineEvent(event, issues, `sync:${source}`);
+    return false;
+  }
+  event = { ...event, ts: normalizeTimestamp(event.ts) };
+
+  const syncDir = join(SYNCED_DIR, source);
 
   // Ensure directory exists
   await mkdir(syncDir, { recursive: true });
 
   // Determine filename from event timestamp
-  const date = new Date(event.ts);
-  const filename = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}.jsonl`;
-  const filepath = join(syncDir, filename);
+  const filepath = join(syncDir, `${partitionFor(event.ts)}.jsonl`);
 
   // Append event as JSON line
   const line = JSON.stringify(event) + '\n';
-  await writeFile(filepath, line, { flag: 'a', encoding: 'utf-8' });
+  await withLock('stream', async () => {
+    await writeFile(filepath, line, { flag: 'a', encoding: 'utf-8' });
+    await refreshFile(filepath);
+    await saveIndex();
+  });
+  notifyEventAppended(event);
+  return true;
 }
 
 /**
  * Batch write multiple synced events
+ *
+ * Returns the number of events written (quarantined events are not counted)
  */
 export async function writeSyncedEvents(source: string, events: BaseEvent[]): Promise<number> {
   let count = 0;
 
   for (const event of events) {
-    await writeSyncedEvent(source, event);
-    count++;
+    if (await writeSyncedEvent(source, event)) {
+      count++;
+    }
   }
 
   return count;
@@ -94,21 +91,17 @@ export async function writeSyncedEvents(source: string, events: BaseEvent[]): Pr
  * Get the latest timestamp from synced events (for incremental sync)
  */
 export async function getLatestSyncTimestamp(source: string): Promise<Date | null> {
-  const events = await readSyncedEvents(source);
-
-  if (events.length === 0) {
-    return null;
-  }
-
-  // Find the most recent timestamp
-  const timestamps = events.map(e => new Date(e.ts).getTime());
-  const latest = Math.max(...timestamps);
+  await refreshIndex();
+  const latest = latestTimestamp(`synced/${source}`);
 
-  return new Date(latest);
+  return latest ? new Date(latest) : null;
 }
 
 /**
  * Create a synced event object
+ *
+ * A timestamp without an offset is taken as wall-clock time in the home
+ * timezone.
  */
 export function createSyncedEvent(
   type: string,
@@ -117,9 +110,11 @@ export function createSyncedEvent(
   source: string
 ): BaseEvent {
   return {
-    ts: timestamp instanceof Date ? timestamp.toISOString() : timestamp,
+    // An unparseable timestamp is left as is, so the event is quarantined
+    ts: typeof timestamp === 'string' && isNaN(toInstant(timestamp)) ? timestamp : normalizeTimestamp(timestamp),
     type,
     source,
+    event_id: generateEventId(),
     data,
   };
 }
@@ -8,7 +8,9 @@ export interface BaseEvent {
   type: string;
   source: string; // manual|claude|strava|fitbit|etc
   id?: string; // Required for updatable entities (tasks, meetings, goals)
+  event_id?: string; // Unique per event; referenced by corrections and retractions
   data: Record<string, any>;
+  corrected_by?: string[]; // Set on read: event_ids of corrections applied to this event
 }
 
 // Event type unions for type safety
@@ -20,7 +22,8 @@ export type EventType =
   | HealthEventType
   | MentalEventType
   | WorkEventType
-  | GoalEventType;
+  | GoalEventType
+  | MetaEventType;
 
 // Task Events
 export type TaskEventType =
@@ -28,7 +31,8 @@ export type TaskEventType =
   | 'task.started'
   | 'task.blocked'
   | 'task.completed'
-  | 'task.abandoned';
+  | 'task.abandoned'
+  | 'task.updated';
 
 export interface TaskData {
   title: string;
@@ -37,8 +41,11 @@ export interface TaskData {
   due?: string; // ISO date
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   reason?: string; // For blocked/abandoned
+  goal_id?: string; // Goal this contributes to
 }
 
+export type TaskStatus = 'open' | 'in_progress' | 'blocked' | 'completed' | 'abandoned';
+
 // Meeting Events
 export type MeetingEventType =
   | 'meeting.scheduled'
@@ -47,12 +54,14 @@ export type MeetingEventType =
 
 export interface MeetingData {
   title: string;
+  start?: string; // ISO 8601 timestamp the meeting takes place
   with?: string[];
   duration_min?: number;
   location?: string;
   notes?: string;
   action_items?: string[]; // Task IDs
   energy?: 'high' | 'neutral' | 'draining';
+  reason?: string; // For cancelled
 }
 
 // Exercise Events
@@ -65,6 +74,7 @@ export interface ExerciseData {
   avg_hr?: number;
   notes?: string;
   strava_id?: string;
+  goal_id?: string;
 }
 
 // Investment Events
@@ -84,6 +94,48 @@ export interface InvestmentData {
   breakdown?: Record<string, number>;
 }
 
+// Portfolio projection
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface Holding {
+  account: string;
+  asset: string;
+  quantity: number;
+  cost_basis_nok: number;
+  avg_cost_nok: number;
+}
+
+export interface RealizedGain {
+  ts: string;
+  account: string;
+  asset: string;
+  quantity: number;
+  proceeds_nok: number;
+  cost_nok: number;
+  gain_nok: number;
+  reported_gain_nok?: number; // realized_gain_nok from the sell event, if logged
+}
+
+export interface SnapshotReconciliation {
+  ts: string;
+  account?: string;
+  total_nok: number;
+  cost_basis_nok: number; // Of the holdings at the time of the snapshot
+  unrealized_gain_nok: number; // total_nok - cost_basis_nok
+  issues: string[];
+}
+
+export interface Portfolio {
+  method: CostBasisMethod;
+  holdings: Holding[];
+  cost_basis_nok: number;
+  realized: RealizedGain[];
+  realized_by_year: Record<string, number>;
+  dividends_by_year: Record<string, number>;
+  snapshots: SnapshotReconciliation[];
+  issues: string[];
+}
+
 // Health Events
 export type HealthEventType =
   | 'health.weight'
@@ -97,7 +149,7 @@ export interface HealthData {
   unit?: string;
   // Sleep
   duration_min?: number;
-  quality?: string;
+  quality?: string | number; // Fitbit reports efficiency (0-100)
   deep_min?: number;
   rem_min?: number;
   // Blood pressure
@@ -107,6 +159,64 @@ export interface HealthData {
   note?: string;
 }
 
+// Health projection
+export type BloodPressureCategory = 'low' | 'normal' | 'elevated' | 'high';
+
+export interface BloodPressureReading {
+  ts: string;
+  systolic: number;
+  diastolic: number;
+  category: BloodPressureCategory;
+}
+
+// One local calendar day; sleep counts toward the day it ended
+export interface HealthDay {
+  date: string; // YYYY-MM-DD
+  weight_kg?: number;
+  weight_avg_7d?: number; // Mean of readings in the 7 days ending on this date
+  sleep_min?: number;
+  deep_min?: number;
+  rem_min?: number;
+  systolic?: number;
+  diastolic?: number;
+  bp_readings: number;
+}
+
+export interface HealthWeek {
+  week: string; // ISO week, e.g. 2026-W03
+  weight_avg?: number;
+  weight_change?: number; // Last reading minus first reading within the week
+  sleep_avg_min?: number;
+  nights: number;
+  deep_pct?: number;
+  rem_pct?: number;
+  systolic_avg?: number;
+  diastolic_avg?: number;
+  bp_readings: number;
+}
+
+export interface HealthSummary {
+  weight_start?: number; // 7-day average at the start of the range
+  weight_end?: number; // 7-day average at the end of the range
+  weight_change?: number;
+  sleep_avg_min?: number;
+  nights: number;
+  deep_pct?: number; // Share of sleep time, over nights with stage data
+  rem_pct?: number;
+  systolic_avg?: number;
+  diastolic_avg?: number;
+  bp_readings: number;
+}
+
+export interface HealthTrends {
+  start: string; // YYYY-MM-DD
+  end: string;
+  summary: HealthSummary;
+  days: HealthDay[];
+  weeks: HealthWeek[];
+  out_of_range: BloodPressureReading[];
+}
+
 // Mental Health Events
 export type MentalEventType =
   | 'mental.checkin'
@@ -127,6 +237,65 @@ export interface MentalData {
   reframe?: string;
 }
 
+// Mental health projection
+export type MentalMetric = 'mood' | 'energy' | 'anxiety';
+
+// Check-in averages for one local calendar day; a metric that was never
+// reported that day is left out rather than counted as 0
+export interface MentalDay {
+  date: string; // YYYY-MM-DD
+  mood?: number;
+  energy?: number;
+  anxiety?: number;
+  mood_avg_7d?: number; // Mean of the daily values in the 7 days ending on this date
+  energy_avg_7d?: number;
+  anxiety_avg_7d?: number;
+  checkins: number;
+  notes: string[];
+}
+
+export interface MentalWeek {
+  week: string; // ISO week, e.g. 2026-W03
+  mood_avg?: number;
+  energy_avg?: number;
+  anxiety_avg?: number;
+  checkins: number;
+}
+
+export interface MentalSummary {
+  mood_avg?: number;
+  energy_avg?: number;
+  anxiety_avg?: number;
+  mood_change?: number; // Last 7-day average minus the first
+  energy_change?: number;
+  anxiety_change?: number;
+  checkins: number;
+}
+
+export interface GratitudeEntry {
+  ts: string;
+  items: string[];
+}
+
+export interface Reflection {
+  ts: string;
+  trigger?: string;
+  thought: string;
+  reframe?: string;
+}
+
+export interface MentalTrends {
+  start: string; // YYYY-MM-DD
+  end: string;
+  summary: MentalSummary;
+  days: MentalDay[];
+  weeks: MentalWeek[];
+  lowest_days: MentalDay[]; // By mood
+  highest_days: MentalDay[];
+  gratitude: GratitudeEntry[];
+  reflections: Reflection[];
+}
+
 // Work Events
 export type WorkEventType = 'work.started' | 'work.stopped' | 'work.logged';
 
@@ -136,6 +305,74 @@ export interface WorkData {
   duration_min?: number;
   description?: string;
   billable?: boolean;
+  goal_id?: string;
+}
+
+// A work session, paired from work.started/work.stopped or from work.logged
+export interface WorkSession {
+  project?: string;
+  task_id?: string;
+  description?: string;
+  billable?: boolean;
+  goal_id?: string;
+  start: string;
+  end?: string;
+  duration_min: number; // Explicit duration if given, else end - start; 0 while open
+  kind: 'timer' | 'logged';
+  status: 'complete' | 'running' | 'dangling';
+}
+
+export interface WorkOverlap {
+  first: WorkSession;
+  second: WorkSession;
+  overlap_min: number;
+}
+
+// Correlation reports
+export type DailyMetric =
+  | 'exercise_min'
+  | 'runs'
+  | 'sleep_min'
+  | 'mood'
+  | 'energy'
+  | 'anxiety'
+  | 'work_hours'
+  | 'meetings'
+  | 'draining_meetings';
+
+// Per-day aggregates across domains; a metric is missing on days it was not
+// measured (e.g. no check-in), while counts and totals are 0
+export interface DailyAggregate {
+  date: string; // YYYY-MM-DD
+  values: Partial<Record<DailyMetric, number>>;
+}
+
+export interface Correlation {
+  x: DailyMetric;
+  y: DailyMetric;
+  lag: number; // y is taken this many days after x
+  r: number; // Pearson correlation coefficient
+  n: number; // Number of paired days
+  description: string;
+}
+
+export interface Comparison {
+  description: string;
+  driver: DailyMetric;
+  threshold: number; // Driver days at or above this value form the "with" group
+  outcome: DailyMetric;
+  lag: number;
+  with: { mean?: number; n: number };
+  without: { mean?: number; n: number };
+  difference?: number; // with.mean - without.mean
+}
+
+export interface CorrelationReport {
+  start: string; // YYYY-MM-DD
+  end: string;
+  days: number;
+  correlations: Correlation[]; // Strongest first
+  comparisons: Comparison[];
 }
 
 // Goal Events
@@ -152,8 +389,34 @@ export interface GoalData {
   area?: string;
   target_date?: string;
   success_criteria?: string;
-  status?: 'on_track' | 'at_risk' | 'behind';
+  status?: GoalPace;
   reason?: string; // For abandoned
+  // Measurable goals
+  metric?: GoalMetric;
+  target_value?: number;
+  unit?: string;
+  filters?: Record<string, string | number | boolean>;
+  start_date?: string;
+}
+
+export type GoalPace = 'on_track' | 'at_risk' | 'behind';
+
+// What a measurable goal counts, from linked or matching events
+export type GoalMetric =
+  | 'distance_km' // exercise.completed distance
+  | 'exercise_min' // exercise.completed duration
+  | 'exercise_sessions' // exercise.completed count
+  | 'work_hours' // Completed work sessions
+  | 'tasks_completed';
+
+// Meta Events (amend earlier events without editing the files)
+export type MetaEventType = 'event.corrected' | 'event.retracted';
+
+export interface CorrectionData {
+  target: string; // event_id of the event being corrected or retracted
+  changes?: Record<string, any>; // Data fields to overwrite (null removes a field)
+  ts?: string; // Corrected timestamp
+  reason?: string;
 }
 
 // Typed event interfaces
@@ -192,15 +455,134 @@ export interface QueryFilters {
   id?: string;
 }
 
+// Result of a structured query (see runQuery)
+export interface QueryResult {
+  query: string;
+  total: number; // Events matching the filter, before any pipeline stage
+  count: number; // Rows returned
+  rows: Record<string, any>[]; // Events, projected fields or groups
+}
+
+// Full-text search (see searchEvents)
+export interface SearchHit {
+  event: BaseEvent;
+  type: string;
+  date: string; // YYYY-MM-DD, local
+  score: number;
+  field: string; // Data field the snippet is taken from
+  snippet: string; // Text around the first match, matched words in **bold**
+}
+
+export interface SearchResult {
+  query: string;
+  total: number; // Matching events, before the limit
+  hits: SearchHit[];
+}
+
+// MCP resources (see listResources)
+export interface LifeResource {
+  uri: string; // e.g. life://views/open-tasks
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface LifeResourceTemplate {
+  uriTemplate: string; // RFC 6570, e.g. life://task/{id}
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+// MCP prompts (see getPrompt)
+export interface LifePrompt {
+  name: string;
+  description: string;
+  arguments: { name: string; description: string; required?: boolean }[];
+}
+
+export interface LifePromptResult {
+  description: string;
+  messages: { role: 'user'; content: { type: 'text'; text: string } }[];
+}
+
+// Natural-language input (see parseWhen)
+export interface ParsedWhen {
+  ts: string; // ISO 8601 with the home timezone's offset
+  duration_min?: number; // When the text also gave a duration, e.g. "yesterday evening 30 min"
+}
+
+export interface ParseDateOptions {
+  now?: Date;
+  // Which way to resolve a bare weekday or date without a year: "Friday"
+  // is the coming Friday for a due date, the last one for a backdated log
+  direction?: 'future' | 'past';
+}
+
+// Read options
+export interface ReadOptions {
+  raw?: boolean; // Return the stream as written, ignoring corrections and retractions
+  asOf?: string; // Replay only events up to this timestamp (a bare date means its end), amendments included
+}
+
 // Task status
 export interface Task {
   id: string;
   title: string;
   area?: string;
+  project?: string;
   due?: string;
   priority?: string;
-  status: 'open' | 'closed';
+  goal_id?: string;
+  status: TaskStatus;
   created: string;
+  started_at?: string; // First time work began
+  blocked_at?: string;
+  blocked_reason?: string; // Only while blocked
+  completed_at?: string;
+  abandoned_at?: string;
+  abandoned_reason?: string;
+  cycle_time_days?: number; // First start (or creation) to completion
+  transitions: TaskTransition[];
+}
+
+export interface TaskTransition {
+  status: TaskStatus;
+  ts: string;
+  reason?: string;
+}
+
+// Meeting status
+export type MeetingStatus = 'scheduled' | 'completed' | 'cancelled';
+
+export interface Meeting {
+  id: string;
+  title: string;
+  status: MeetingStatus;
+  start?: string; // When the meeting takes place (completion time if never scheduled)
+  scheduled_at?: string;
+  completed_at?: string;
+  cancelled_at?: string;
+  cancel_reason?: string;
+  with: string[];
+  duration_min?: number;
+  location?: string;
+  notes?: string;
+  energy?: string;
+  action_items: ActionItem[];
+}
+
+// A task spawned from a meeting, resolved against the task projection
+export interface ActionItem {
+  task_id: string;
+  title?: string;
+  status: TaskStatus | 'unknown';
 }
 
 // Goal status
@@ -211,8 +593,105 @@ export interface Goal {
   area?: string;
   target_date?: string;
   success_criteria?: string;
-  latest_status?: string;
-  achieved?: boolean;
+  status: GoalStatus;
+  latest_status?: string; // Self-reported in the latest goal.progress
+  set_at?: string;
   achieved_at?: string;
-  history: BaseEvent[];
+  abandoned_at?: string;
+  abandoned_reason?: string;
+  history: BaseEvent[]; // Every event after goal.set
+  metric?: GoalMetric;
+  target_value?: number;
+  unit?: string;
+  filters?: Record<string, string | number | boolean>;
+  start_date?: string; // YYYY-MM-DD progress is counted from
+  progress?: GoalProgress; // Measurable goals only
+  links?: GoalLinks;
+  derived_status?: GoalPace; // From progress and pace; latest_status is self-reported
+}
+
+export type GoalStatus = 'active' | 'achieved' | 'abandoned';
+
+export interface GoalProgress {
+  metric: GoalMetric;
+  current: number;
+  target_value: number;
+  unit?: string;
+  percent: number;
+  expected?: number; // Where a steady pace would be by now (needs target_date)
+}
+
+// Work explicitly linked to a goal with goal_id
+export interface GoalLinks {
+  tasks: number;
+  tasks_completed: number;
+  work_hours: number;
+  exercise_sessions: number;
+}
+
+// Review periods, counted in whole days in the home timezone
+export type PeriodKind = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export interface Period {
+  key: string; // 2026-01-15, 2026-W03, 2026-01, 2026-Q1 or 2026
+  kind: PeriodKind;
+  start_day: string; // YYYY-MM-DD, first day
+  end_day: string; // YYYY-MM-DD, last day (inclusive)
+  start: string; // ISO timestamp the period starts
+  end: string; // ISO timestamp the next period starts (exclusive)
+}
+
+// Headline numbers for a period, as compared period over period
+export interface PeriodTotals {
+  tasks_created: number;
+  tasks_completed: number;
+  goals_achieved: number;
+  meetings: number;
+  exercise_sessions: number;
+  exercise_min: number;
+  distance_km: number;
+  work_hours: number;
+  checkins: number;
+  sleep_avg_min?: number;
+  mood_avg?: number;
+  energy_avg?: number;
+  anxiety_avg?: number;
+}
+
+export interface PeriodSummary {
+  period: Period;
+  complete: boolean; // The period is over; otherwise the numbers are still moving
+  tasks_completed: BaseEvent[];
+  tasks_created: BaseEvent[];
+  goals_achieved: BaseEvent[];
+  meetings: BaseEvent[];
+  exercise_sessions: BaseEvent[];
+  work_hours: number;
+  checkins: BaseEvent[];
+  health: HealthSummary;
+  mental: MentalSummary;
+  totals: PeriodTotals;
+}
+
+export interface PeriodComparison {
+  current: PeriodSummary;
+  previous: PeriodSummary;
+  change: Partial<PeriodTotals>; // Current minus previous, where both are known
+}
+
+// What changed between two points in time
+export interface StateDiff {
+  from: string;
+  to: string;
+  tasks: {
+    added: Task[];
+    completed: Task[];
+    abandoned: Task[];
+    changed: { task: Task; from: TaskStatus }[]; // Other status changes
+  };
+  goals: {
+    set: Goal[];
+    achieved: Goal[];
+    abandoned: Goal[];
+  };
 }
@@ -2,10 +2,30 @@
  * View generation utilities - create markdown views from event stream
  */
 
-import { writeFile } from 'fs/promises';
+import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
-import { getOpenTasks, getActiveGoals, getWeeklySummary } from './query.js';
-import type { Task, Goal } from './types.js';
+import { getOpenTasks, getActiveGoals, getGoals, getWeeklySummary, comparePeriods } from './query.js';
+import { getMeetings, getOpenActionItems, getPeople } from './meetings.js';
+import { getTimesheet } from './work.js';
+import { getPortfolio } from './portfolio.js';
+import { getHealthTrends } from './health.js';
+import { getMentalTrends, averageMetric } from './mental.js';
+import { findCorrelations, metricLabel, DAILY_METRICS } from './correlations.js';
+import { periodContaining, previousPeriod, periodLabel } from './periods.js';
+import { HOME_TZ } from './config.js';
+import { dayKey, compareTimestamps } from './dates.js';
+import type {
+  BaseEvent,
+  Task,
+  Goal,
+  Meeting,
+  HealthSummary,
+  MentalDay,
+  MentalMetric,
+  DailyMetric,
+  PeriodSummary,
+  PeriodTotals,
+} from './types.js';
 
 /**
  * Get the views directory path
@@ -18,17 +38,37 @@ function getViewsDir(): string {
 
 /**
  * Format a date string for display
+ *
+ * Timestamps are shown in the home timezone; a bare date (YYYY-MM-DD) is
+ * shown as written.
  */
 function formatDate(dateStr: string | undefined): string {
   if (!dateStr) return '';
   const date = new Date(dateStr);
   return date.toLocaleDateString('en-US', {
+    timeZone: /^\d{4}-\d{2}-\d{2}$/.test(dateStr) ? 'UTC' : HOME_TZ,
     year: 'numeric',
     month: 'short',
     day: 'numeric'
   });
 }
 
+/**
+ * Format a timestamp with date and time for display
+ */
+function formatDateTime(dateStr: string | undefined): string {
+  if (!dateStr) return '';
+  const date = new Date(dateStr);
+  return date.toLocaleString('en-US', {
+    timeZone: HOME_TZ,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
 /**
  * Generate the open tasks view
  */
@@ -70,6 +110,12 @@ export async function generateOpenTasksView(): Promise<string> {
     for (const task of areaTasks) {
       let line = `- [ ] **${task.title}**`;
 
+      if (task.status === 'in_progress') {
+        line += ' 🚧 *in progress*';
+      } else if (task.status === 'blocked') {
+        line += ` ⛔ *blocked${task.blocked_reason ? `: ${task.blocked_reason}` : ''}*`;
+      }
+
       if (task.priority) {
         const priorityEmoji = {
           urgent: '🔴',
@@ -101,11 +147,21 @@ export async function generateOpenTasksView(): Promise<string> {
     md += '\n';
   }
 
-  md += `---\n\n*Total open tasks: ${tasks.length}*\n`;
+  const inProgress = tasks.filter(t => t.status === 'in_progress').length;
+  const blocked = tasks.filter(t => t.status === 'blocked').length;
+  md += `---\n\n*Total open tasks: ${tasks.length} (${inProgress} in progress, ${blocked} blocked)*\n`;
 
   return md;
 }
 
+/**
+ * Render a percentage as a ten-block progress bar
+ */
+function formatProgressBar(percent: number): string {
+  const filled = Math.max(0, Math.min(10, Math.round(percent / 10)));
+  return `${'▓'.repeat(filled)}${'░'.repeat(10 - filled)}`;
+}
+
 /**
  * Generate the goals status view
  */
@@ -155,13 +211,36 @@ export async function generateGoalsView(): Promise<string> {
         md += `- **Success criteria:** ${goal.success_criteria}\n`;
       }
 
-      if (goal.latest_status) {
-        const statusEmoji = {
-          on_track: '🟢',
-          at_risk: '🟡',
-          behind: '🔴',
-        }[goal.latest_status] || '';
-        md += `- **Status:** ${statusEmoji} ${goal.latest_status.replace('_', ' ')}\n`;
+      if (goal.progress) {
+        const { current, target_value, unit, percent, expected } = goal.progress;
+        const suffix = unit ? ` ${unit}` : '';
+        md += `- **Progress:** ${formatProgressBar(percent)} ${current}${suffix} / ${target_value}${suffix} (${percent}%)\n`;
+        if (expected !== undefined && current < target_value) {
+          md += `- **Expected by now:** ${expected}${suffix}\n`;
+        }
+      }
+
+      const statusEmoji: Record<string, string> = {
+        on_track: '🟢',
+        at_risk: '🟡',
+        behind: '🔴',
+      };
+      if (goal.derived_status) {
+        md += `- **Status:** ${statusEmoji[goal.derived_status]} ${goal.derived_status.replace('_', ' ')} *(from pace)*\n`;
+        if (goal.latest_status && goal.latest_status !== goal.derived_status) {
+          md += `- **Self-reported:** ${statusEmoji[goal.latest_status] || ''} ${goal.latest_status.replace('_', ' ')}\n`;
+        }
+      } else if (goal.latest_status) {
+        md += `- **Status:** ${statusEmoji[goal.latest_status] || ''} ${goal.latest_status.replace('_', ' ')}\n`;
+      }
+
+      const links = goal.links;
+      if (links && (links.tasks > 0 || links.work_hours > 0 || links.exercise_sessions > 0)) {
+        const parts: string[] = [];
+        if (links.tasks > 0) parts.push(`${links.tasks} task${links.tasks === 1 ? '' : 's'} (${links.tasks_completed} done)`);
+        if (links.work_hours > 0) parts.push(`${links.work_hours.toFixed(1)}h work`);
+        if (links.exercise_sessions > 0) parts.push(`${links.exercise_sessions} workout${links.exercise_sessions === 1 ? '' : 's'}`);
+        md += `- **Linked:** ${parts.join(', ')}\n`;
       }
 
       if (goal.history.length > 0) {
@@ -178,16 +257,93 @@ export async function generateGoalsView(): Promise<string> {
 }
 
 /**
- * Generate the weekly review view
+ * Format one goal event as a history line
+ */
+function formatGoalEvent(event: BaseEvent): string {
+  const action = event.type.replace('goal.', '');
+  const details: string[] = [];
+
+  if (event.type === 'goal.progress' && event.data.status) {
+    details.push(event.data.status.replace('_', ' '));
+  }
+  if (event.type === 'goal.revised') {
+    for (const [field, value] of Object.entries(event.data)) {
+      if (field === 'reason' || field === 'notes') continue;
+      details.push(`${field} → ${typeof value === 'object' ? JSON.stringify(value) : value}`);
+    }
+  }
+  if (event.data.reason) details.push(event.data.reason);
+  if (event.data.notes) details.push(event.data.notes);
+
+  return `  - ${formatDate(event.ts)} — ${action}${details.length > 0 ? `: ${details.join('; ')}` : ''}\n`;
+}
+
+/**
+ * Generate the archive of achieved and abandoned goals, by year closed
+ */
+export async function generateGoalsArchiveView(): Promise<string> {
+  const goals = await getGoals({ status: ['achieved', 'abandoned'] });
+
+  let md = '# Goals Archive\n\n';
+  md += `*Last updated: ${new Date().toLocaleString()}*\n\n`;
+
+  if (goals.length === 0) {
+    md += 'No achieved or abandoned goals yet.\n';
+    return md;
+  }
+
+  const closedAt = (goal: Goal) => (goal.status === 'achieved' ? goal.achieved_at : goal.abandoned_at) || '';
+  const byYear: Record<string, Goal[]> = {};
+  for (const goal of goals) {
+    const year = closedAt(goal) ? dayKey(closedAt(goal)).slice(0, 4) : 'Unknown';
+    (byYear[year] ||= []).push(goal);
+  }
+
+  for (const year of Object.keys(byYear).sort().reverse()) {
+    const yearGoals = byYear[year].sort((a, b) => compareTimestamps(closedAt(b), closedAt(a)));
+    const achieved = yearGoals.filter(g => g.status === 'achieved').length;
+    md += `## ${year}\n\n`;
+    md += `*${achieved} achieved, ${yearGoals.length - achieved} abandoned*\n\n`;
+
+    for (const goal of yearGoals) {
+      md += `### ${goal.status === 'achieved' ? '✅' : '❌'} ${goal.title || 'Untitled goal'}\n\n`;
+      md += `- **ID:** \`${goal.id}\`\n`;
+      if (goal.horizon) md += `- **Horizon:** ${goal.horizon}\n`;
+      if (goal.area) md += `- **Area:** ${goal.area}\n`;
+      if (goal.set_at) md += `- **Set:** ${formatDate(goal.set_at)}\n`;
+      if (goal.target_date) md += `- **Target:** ${formatDate(goal.target_date)}\n`;
+      if (goal.status === 'achieved') {
+        md += `- **Achieved:** ${formatDate(goal.achieved_at)}\n`;
+      } else {
+        md += `- **Abandoned:** ${formatDate(goal.abandoned_at)}${goal.abandoned_reason ? ` — ${goal.abandoned_reason}` : ''}\n`;
+      }
+      if (goal.success_criteria) md += `- **Success criteria:** ${goal.success_criteria}\n`;
+      if (goal.progress) {
+        const suffix = goal.progress.unit ? ` ${goal.progress.unit}` : '';
+        md += `- **Final progress:** ${goal.progress.current}${suffix} / ${goal.progress.target_value}${suffix} (${goal.progress.percent}%)\n`;
+      }
+      if (goal.history.length > 0) {
+        md += '- **History:**\n';
+        for (const event of goal.history) {
+          md += formatGoalEvent(event);
+        }
+      }
+      md += '\n';
+    }
+  }
+
+  return md;
+}
+
+/**
+ * Generate the weekly review view for the current ISO week
  */
 export async function generateWeeklyReviewView(): Promise<string> {
   const summary = await getWeeklySummary();
-
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - 7);
+  const { period } = summary;
 
   let md = '# Weekly Review\n\n';
-  md += `*${formatDate(startDate.toISOString())} - ${formatDate(new Date().toISOString())}*\n\n`;
+  md += `*${periodLabel(period)}: ${formatDay(period.start_day)} - ${formatDay(period.end_day)}*\n\n`;
 
   // Overview
   md += '## Overview\n\n';
@@ -198,6 +354,84 @@ export async function generateWeeklyReviewView(): Promise<string> {
   md += `- **Work hours:** ${summary.work_hours.toFixed(1)}h\n`;
   md += `- **Check-ins:** ${summary.checkins.length}\n\n`;
 
+  md += formatReviewSections(summary);
+
+  return md;
+}
+
+/**
+ * Generate the review of a period (e.g. 2026-W03, 2026-01, 2026-Q1)
+ *
+ * Compares the period with the one before it. The output depends only on
+ * the stream, not on when it is generated, so the review of a period that
+ * is over stays the same from one run to the next.
+ */
+export async function generatePeriodReviewView(key: string): Promise<string> {
+  const { current, previous, change } = await comparePeriods(key);
+  const { period } = current;
+
+  let md = `# Review: ${periodLabel(period)}\n\n`;
+  md += `*${formatDay(period.start_day)} - ${formatDay(period.end_day)}*\n\n`;
+  if (!current.complete) {
+    md += '> **In progress** - numbers will change until the period is over.\n\n';
+  }
+
+  // Period over period
+  const rows: [string, keyof PeriodTotals, (value: number | undefined) => string][] = [
+    ['Tasks created', 'tasks_created', formatCount],
+    ['Tasks completed', 'tasks_completed', formatCount],
+    ['Goals achieved', 'goals_achieved', formatCount],
+    ['Meetings', 'meetings', formatCount],
+    ['Exercise sessions', 'exercise_sessions', formatCount],
+    ['Exercise time', 'exercise_min', value => (value === undefined ? '—' : formatHours(value))],
+    ['Distance', 'distance_km', value => (value === undefined ? '—' : `${value.toFixed(1)} km`)],
+    ['Work hours', 'work_hours', value => (value === undefined ? '—' : `${value.toFixed(1)}h`)],
+    ['Check-ins', 'checkins', formatCount],
+    ['Average sleep', 'sleep_avg_min', formatSleep],
+    ['Mood', 'mood_avg', formatScore],
+    ['Energy', 'energy_avg', formatScore],
+    ['Anxiety', 'anxiety_avg', formatScore],
+  ];
+
+  md += '## Overview\n\n';
+  md += `| | ${periodLabel(period)} | ${periodLabel(previous.period)} | Change |\n`;
+  md += '|---|---|---|---|\n';
+  for (const [label, field, format] of rows) {
+    // Show the change in the row's own unit
+    const value = change[field];
+    const delta = value === undefined || value === 0
+      ? format(value)
+      : `${value > 0 ? '+' : '-'}${format(Math.abs(value))}`;
+    md += `| ${label} | ${format(current.totals[field])} | ${format(previous.totals[field])} | ${delta} |\n`;
+  }
+  md += '\n';
+
+  md += formatReviewSections(current);
+
+  if (current.goals_achieved.length > 0) {
+    md += '## 🎯 Goals Achieved\n\n';
+    for (const event of current.goals_achieved) {
+      md += `- ${event.data.title || event.id} *(${formatDate(event.ts)})* \`${event.id}\`\n`;
+    }
+    md += '\n';
+  }
+
+  return md;
+}
+
+/**
+ * Format a count for the review table
+ */
+function formatCount(value: number | undefined): string {
+  return value === undefined ? '—' : String(value);
+}
+
+/**
+ * Format the detail sections shared by the weekly and period reviews
+ */
+function formatReviewSections(summary: PeriodSummary): string {
+  let md = '';
+
   // Tasks completed
   if (summary.tasks_completed.length > 0) {
     md += '## ✅ Tasks Completed\n\n';
@@ -251,26 +485,560 @@ export async function generateWeeklyReviewView(): Promise<string> {
     md += '\n';
   }
 
+  // Sleep, weight and blood pressure
+  const health = formatHealthSummary(summary.health);
+  if (health) {
+    md += '## 🩺 Health\n\n';
+    md += health;
+    md += '\n';
+  }
+
   // Mental health check-ins
   if (summary.checkins.length > 0) {
     md += '## 🧠 Mental Health\n\n';
 
-    let totalMood = 0;
-    let totalEnergy = 0;
-    let totalAnxiety = 0;
+    // Average each metric over the check-ins that reported it
+    const metrics: MentalMetric[] = ['mood', 'energy', 'anxiety'];
+    for (const metric of metrics) {
+      const average = averageMetric(summary.checkins, metric);
+      if (average !== undefined) {
+        md += `- **Average ${metric}:** ${average.toFixed(1)}/10\n`;
+      }
+    }
+    md += '\n';
+  }
+
+  return md;
+}
+
+/**
+ * Format a single meeting as a markdown list item
+ */
+function formatMeetingLine(meeting: Meeting, showStatus = false): string {
+  let line = '- ';
+  if (showStatus) {
+    const statusEmoji = {
+      scheduled: '📅',
+      completed: '✅',
+      cancelled: '❌',
+    }[meeting.status];
+    line += `${statusEmoji} `;
+  }
+  line += `**${meeting.title}**`;
+  if (meeting.start) {
+    line += ` — ${formatDateTime(meeting.start)}`;
+  }
+  if (meeting.duration_min) {
+    line += ` (${meeting.duration_min} min)`;
+  }
+  if (meeting.with.length > 0) {
+    line += ` with ${meeting.with.join(', ')}`;
+  }
+  if (meeting.location) {
+    line += ` @ ${meeting.location}`;
+  }
+  if (meeting.energy) {
+    const energyEmoji = {
+      high: '⚡',
+      neutral: '😐',
+      draining: '🪫',
+    }[meeting.energy] || '';
+    line += ` ${energyEmoji}`;
+  }
+  return `${line} \`${meeting.id}\`\n`;
+}
+
+/**
+ * Generate the meetings view: agenda, follow-ups and per-person history
+ */
+export async function generateMeetingsView(): Promise<string> {
+  const meetings = await getMeetings();
+  const now = new Date();
+
+  let md = '# Meetings\n\n';
+  md += `*Last updated: ${new Date().toLocaleString()}*\n\n`;
+
+  if (meetings.length === 0) {
+    md += 'No meetings logged yet.\n';
+    return md;
+  }
+
+  const upcoming = meetings.filter(
+    m => m.status === 'scheduled' && (!m.start || new Date(m.start) >= now)
+  );
+  const awaiting = meetings.filter(
+    m => m.status === 'scheduled' && m.start && new Date(m.start) < now
+  );
+  const twoWeeksAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
+  const recent = meetings.filter(
+    m => m.status === 'completed' && m.start && new Date(m.start) >= twoWeeksAgo
+  );
+
+  md += '## 📅 Upcoming\n\n';
+  if (upcoming.length === 0) {
+    md += 'Nothing scheduled.\n';
+  }
+  for (const meeting of upcoming) {
+    md += formatMeetingLine(meeting);
+  }
+  md += '\n';
+
+  if (awaiting.length > 0) {
+    md += '## ⏳ Awaiting Outcome\n\n';
+    md += '*Scheduled in the past but never completed or cancelled.*\n\n';
+    for (const meeting of awaiting) {
+      md += formatMeetingLine(meeting);
+    }
+    md += '\n';
+  }
+
+  const openItems = getOpenActionItems(meetings);
+  if (openItems.length > 0) {
+    const byId: Record<string, Meeting> = {};
+    for (const meeting of meetings) byId[meeting.id] = meeting;
+
+    md += '## 📌 Open Action Items\n\n';
+    for (const item of openItems) {
+      const title = item.title || 'Unknown task';
+      const status = item.status === 'open' ? '' : ` *(${item.status.replace('_', ' ')})*`;
+      md += `- [ ] ${title}${status} \`${item.task_id}\` — from *${byId[item.meeting_id].title}*\n`;
+    }
+    md += '\n';
+  }
+
+  if (recent.length > 0) {
+    md += '## ✅ Recent (14 days)\n\n';
+    for (const meeting of [...recent].reverse()) {
+      md += formatMeetingLine(meeting);
+    }
+    md += '\n';
+  }
+
+  const people = getPeople(meetings);
+  if (people.length > 0) {
+    md += '## 👥 People\n\n';
+    for (const person of people) {
+      const withPerson = meetings.filter(m => m.with.includes(person));
+      const held = withPerson.filter(m => m.status === 'completed');
+      const next = withPerson.find(m => upcoming.includes(m));
+      const items = getOpenActionItems(withPerson);
+
+      md += `### ${person}\n\n`;
+      md += `- **Meetings:** ${held.length} held`;
+      if (held.length > 0) {
+        md += `, last ${formatDate(held[held.length - 1].start)}`;
+      }
+      md += '\n';
+      if (next) {
+        md += `- **Next:** ${next.title} — ${formatDateTime(next.start)}\n`;
+      }
+      if (items.length > 0) {
+        md += `- **Open action items:** ${items.map(i => `${i.title || i.task_id} \`${i.task_id}\``).join(', ')}\n`;
+      }
+      md += '\n';
+      for (const meeting of [...withPerson].reverse()) {
+        md += formatMeetingLine(meeting, true);
+      }
+      md += '\n';
+    }
+  }
+
+  return md;
+}
+
+/**
+ * Format minutes as hours for display
+ */
+function formatHours(minutes: number): string {
+  return `${(minutes / 60).toFixed(1)}h`;
+}
+
+/**
+ * Generate the timesheet view (defaults to the current month)
+ */
+export async function generateTimesheetView(startDate?: string, endDate?: string): Promise<string> {
+  const start = startDate || periodContaining('month').start;
+  const end = endDate || new Date().toISOString();
+  const timesheet = await getTimesheet({ startDate: start, endDate: end });
+
+  let md = '# Timesheet\n\n';
+  md += `*${formatDate(start)} - ${formatDate(end)}*\n\n`;
+
+  if (timesheet.rows.length === 0) {
+    md += 'No work logged in this period.\n';
+  } else {
+    md += '| Project | Billable | Non-billable | Total | Sessions |\n';
+    md += '|---------|---------:|-------------:|------:|---------:|\n';
+    for (const row of timesheet.rows) {
+      md += `| ${row.project} | ${formatHours(row.billable_min)} | ${formatHours(row.non_billable_min)} | ${formatHours(row.total_min)} | ${row.sessions} |\n`;
+    }
+    md += `| **Total** | **${formatHours(timesheet.billable_min)}** | **${formatHours(timesheet.non_billable_min)}** | **${formatHours(timesheet.total_min)}** | |\n\n`;
+  }
+
+  if (timesheet.dangling.length > 0) {
+    md += '## ⚠️ Dangling Sessions\n\n';
+    md += '*Started but never stopped; not counted above. Log a work.stopped or a correction.*\n\n';
+    for (const session of timesheet.dangling) {
+      md += `- ${session.project || 'unassigned'}${session.task_id ? ` \`${session.task_id}\`` : ''} started ${formatDateTime(session.start)}\n`;
+    }
+    md += '\n';
+  }
+
+  if (timesheet.overlaps.length > 0) {
+    md += '## ⚠️ Overlapping Sessions\n\n';
+    for (const overlap of timesheet.overlaps) {
+      md += `- ${overlap.first.project || 'unassigned'} (${formatDateTime(overlap.first.start)}) and ${overlap.second.project || 'unassigned'} (${formatDateTime(overlap.second.start)}) overlap by ${overlap.overlap_min} min\n`;
+    }
+    md += '\n';
+  }
+
+  return md;
+}
+
+/**
+ * Format an amount in NOK for display
+ */
+function formatNok(amount: number): string {
+  return `${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })} NOK`;
+}
+
+/**
+ * Generate the portfolio view
+ */
+export async function generatePortfolioView(): Promise<string> {
+  const portfolio = await getPortfolio();
+
+  let md = '# Portfolio\n\n';
+  md += `*Last updated: ${new Date().toLocaleString()} · cost basis: ${portfolio.method.toUpperCase()}*\n\n`;
+
+  md += '## Holdings\n\n';
+  if (portfolio.holdings.length === 0) {
+    md += 'No holdings.\n\n';
+  } else {
+    md += '| Account | Asset | Quantity | Avg cost | Cost basis |\n';
+    md += '|---------|-------|---------:|---------:|-----------:|\n';
+    for (const holding of portfolio.holdings) {
+      md += `| ${holding.account} | ${holding.asset} | ${holding.quantity} | ${formatNok(holding.avg_cost_nok)} | ${formatNok(holding.cost_basis_nok)} |\n`;
+    }
+    md += `| **Total** | | | | **${formatNok(portfolio.cost_basis_nok)}** |\n\n`;
+  }
+
+  const years = [...new Set([
+    ...Object.keys(portfolio.realized_by_year),
+    ...Object.keys(portfolio.dividends_by_year),
+  ])].sort().reverse();
+  if (years.length > 0) {
+    md += '## Income by Year\n\n';
+    md += '| Year | Realized gains | Dividends |\n';
+    md += '|------|---------------:|----------:|\n';
+    for (const year of years) {
+      md += `| ${year} | ${formatNok(portfolio.realized_by_year[year] || 0)} | ${formatNok(portfolio.dividends_by_year[year] || 0)} |\n`;
+    }
+    md += '\n';
+  }
+
+  if (portfolio.realized.length > 0) {
+    md += '## Sales\n\n';
+    for (const sale of [...portfolio.realized].reverse()) {
+      let line = `- ${formatDate(sale.ts)}: ${sale.quantity} ${sale.asset} (${sale.account}) for ${formatNok(sale.proceeds_nok)}, gain **${formatNok(sale.gain_nok)}**`;
+      if (sale.reported_gain_nok !== undefined && Math.abs(sale.reported_gain_nok - sale.gain_nok) >= 1) {
+        line += ` ⚠️ logged as ${formatNok(sale.reported_gain_nok)}`;
+      }
+      md += `${line}\n`;
+    }
+    md += '\n';
+  }
+
+  const latest = portfolio.snapshots[portfolio.snapshots.length - 1];
+  if (latest) {
+    md += '## Latest Snapshot\n\n';
+    md += `- **Date:** ${formatDate(latest.ts)}${latest.account ? ` (${latest.account})` : ''}\n`;
+    md += `- **Market value:** ${formatNok(latest.total_nok)}\n`;
+    md += `- **Cost basis:** ${formatNok(latest.cost_basis_nok)}\n`;
+    md += `- **Unrealized gain:** ${formatNok(latest.unrealized_gain_nok)}\n`;
+    for (const issue of latest.issues) {
+      md += `- ⚠️ ${issue}\n`;
+    }
+    md += '\n';
+  }
+
+  if (portfolio.issues.length > 0) {
+    md += '## ⚠️ Issues\n\n';
+    for (const issue of portfolio.issues) {
+      md += `- ${issue}\n`;
+    }
+    md += '\n';
+  }
+
+  return md;
+}
+
+/**
+ * Format a local calendar day (YYYY-MM-DD) for display
+ */
+function formatDay(day: string): string {
+  return formatDate(day);
+}
+
+/**
+ * Format a sleep duration in minutes as hours and minutes
+ */
+function formatSleep(minutes: number | undefined): string {
+  if (minutes === undefined) return '—';
+  return `${Math.floor(minutes / 60)}h ${String(Math.round(minutes % 60)).padStart(2, '0')}m`;
+}
+
+/**
+ * Format a change with an explicit sign
+ */
+function formatChange(value: number | undefined, unit: string): string {
+  if (value === undefined) return '—';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)} ${unit}`;
+}
+
+/**
+ * Format the headline health numbers as markdown list items
+ */
+function formatHealthSummary(summary: HealthSummary): string {
+  let md = '';
+  if (summary.weight_end !== undefined) {
+    md += `- **Weight (7-day avg):** ${summary.weight_end.toFixed(1)} kg`;
+    if (summary.weight_change !== undefined) {
+      md += ` (${formatChange(summary.weight_change, 'kg')})`;
+    }
+    md += '\n';
+  }
+  if (summary.nights > 0) {
+    md += `- **Average sleep:** ${formatSleep(summary.sleep_avg_min)} over ${summary.nights} night${summary.nights === 1 ? '' : 's'}`;
+    if (summary.deep_pct !== undefined && summary.rem_pct !== undefined) {
+      md += ` (deep ${summary.deep_pct}%, REM ${summary.rem_pct}%)`;
+    }
+    md += '\n';
+  }
+  if (summary.bp_readings > 0) {
+    md += `- **Blood pressure:** ${summary.systolic_avg}/${summary.diastolic_avg} avg over ${summary.bp_readings} reading${summary.bp_readings === 1 ? '' : 's'}\n`;
+  }
+  return md;
+}
+
+/**
+ * Generate the health trends view (defaults to the last 30 days)
+ */
+export async function generateHealthView(startDate?: string, endDate?: string): Promise<string> {
+  const trends = await getHealthTrends({ startDate, endDate });
+
+  let md = '# Health\n\n';
+  md += `*${formatDay(trends.start)} - ${formatDay(trends.end)}*\n\n`;
+
+  const summary = formatHealthSummary(trends.summary);
+  if (!summary) {
+    md += 'No weight, sleep or blood pressure data in this period.\n';
+    return md;
+  }
+
+  md += '## Summary\n\n';
+  md += summary;
+  md += '\n';
+
+  md += '## By Week\n\n';
+  md += '| Week | Weight | Change | Sleep | Deep | REM | BP |\n';
+  md += '|------|-------:|-------:|------:|-----:|----:|---:|\n';
+  for (const week of [...trends.weeks].reverse()) {
+    const weight = week.weight_avg !== undefined ? `${week.weight_avg.toFixed(1)} kg` : '—';
+    const deep = week.deep_pct !== undefined ? `${week.deep_pct}%` : '—';
+    const rem = week.rem_pct !== undefined ? `${week.rem_pct}%` : '—';
+    const bp = week.bp_readings > 0 ? `${week.systolic_avg}/${week.diastolic_avg}` : '—';
+    md += `| ${week.week} | ${weight} | ${formatChange(week.weight_change, 'kg')} | ${formatSleep(week.sleep_avg_min)} | ${deep} | ${rem} | ${bp} |\n`;
+  }
+  md += '\n';
+
+  if (trends.out_of_range.length > 0) {
+    md += '## ⚠️ Blood Pressure Out of Range\n\n';
+    for (const reading of [...trends.out_of_range].reverse()) {
+      md += `- ${formatDateTime(reading.ts)}: **${reading.systolic}/${reading.diastolic}** (${reading.category})\n`;
+    }
+    md += '\n';
+  }
+
+  md += '## Daily\n\n';
+  md += '| Date | Weight | 7-day avg | Sleep | BP |\n';
+  md += '|------|-------:|----------:|------:|---:|\n';
+  for (const day of [...trends.days].reverse()) {
+    const weight = day.weight_kg !== undefined ? `${day.weight_kg.toFixed(1)} kg` : '—';
+    const average = day.weight_avg_7d !== undefined ? `${day.weight_avg_7d.toFixed(1)} kg` : '—';
+    const bp = day.bp_readings > 0 ? `${day.systolic}/${day.diastolic}` : '—';
+    md += `| ${formatDay(day.date)} | ${weight} | ${average} | ${formatSleep(day.sleep_min)} | ${bp} |\n`;
+  }
+  md += '\n';
+
+  return md;
+}
+
+/**
+ * Format a 1-10 score, or a dash if it was not reported
+ */
+function formatScore(value: number | undefined): string {
+  return value !== undefined ? value.toFixed(1) : '—';
+}
+
+/**
+ * Format a day of check-ins as a markdown list item with its notes
+ */
+function formatMentalDay(day: MentalDay): string {
+  let line = `- **${formatDay(day.date)}**: mood ${formatScore(day.mood)}`;
+  if (day.energy !== undefined) line += `, energy ${formatScore(day.energy)}`;
+  if (day.anxiety !== undefined) line += `, anxiety ${formatScore(day.anxiety)}`;
+  line += '\n';
+  for (const note of day.notes) {
+    line += `  - ${note}\n`;
+  }
+  return line;
+}
+
+/**
+ * Generate the mental health view (defaults to the last 30 days)
+ */
+export async function generateMentalView(startDate?: string, endDate?: string): Promise<string> {
+  const trends = await getMentalTrends({ startDate, endDate });
+  const { summary } = trends;
 
-    for (const event of summary.checkins) {
-      totalMood += event.data.mood || 0;
-      totalEnergy += event.data.energy || 0;
-      totalAnxiety += event.data.anxiety || 0;
+  let md = '# Mental Health\n\n';
+  md += `*${formatDay(trends.start)} - ${formatDay(trends.end)}*\n\n`;
+
+  if (summary.checkins === 0 && trends.gratitude.length === 0 && trends.reflections.length === 0) {
+    md += 'No check-ins, gratitude or reflections in this period.\n';
+    return md;
+  }
+
+  if (summary.checkins > 0) {
+    md += '## Summary\n\n';
+    md += `- **Check-ins:** ${summary.checkins}\n`;
+    const metrics: [string, number | undefined, number | undefined][] = [
+      ['Mood', summary.mood_avg, summary.mood_change],
+      ['Energy', summary.energy_avg, summary.energy_change],
+      ['Anxiety', summary.anxiety_avg, summary.anxiety_change],
+    ];
+    for (const [label, average, change] of metrics) {
+      if (average === undefined) continue;
+      md += `- **${label}:** ${average.toFixed(1)}/10`;
+      if (change !== undefined) {
+        md += ` (7-day trend ${formatChange(change, 'points')})`;
+      }
+      md += '\n';
     }
+    md += '\n';
 
-    const count = summary.checkins.length;
-    md += `- **Average mood:** ${(totalMood / count).toFixed(1)}/10\n`;
-    md += `- **Average energy:** ${(totalEnergy / count).toFixed(1)}/10\n`;
-    md += `- **Average anxiety:** ${(totalAnxiety / count).toFixed(1)}/10\n\n`;
+    md += '## By Week\n\n';
+    md += '| Week | Mood | Energy | Anxiety | Check-ins |\n';
+    md += '|------|-----:|-------:|--------:|----------:|\n';
+    for (const week of [...trends.weeks].reverse()) {
+      md += `| ${week.week} | ${formatScore(week.mood_avg)} | ${formatScore(week.energy_avg)} | ${formatScore(week.anxiety_avg)} | ${week.checkins} |\n`;
+    }
+    md += '\n';
   }
 
+  if (trends.lowest_days.length > 0) {
+    md += '## Lowest Days\n\n';
+    for (const day of trends.lowest_days) {
+      md += formatMentalDay(day);
+    }
+    md += '\n';
+
+    md += '## Best Days\n\n';
+    for (const day of trends.highest_days) {
+      md += formatMentalDay(day);
+    }
+    md += '\n';
+  }
+
+  if (trends.gratitude.length > 0) {
+    md += '## 🙏 Gratitude\n\n';
+    for (const entry of [...trends.gratitude].reverse()) {
+      md += `- *${formatDate(entry.ts)}*: ${entry.items.join('; ')}\n`;
+    }
+    md += '\n';
+  }
+
+  if (trends.reflections.length > 0) {
+    md += '## 💭 Reflections\n\n';
+    for (const reflection of [...trends.reflections].reverse()) {
+      md += `### ${formatDate(reflection.ts)}${reflection.trigger ? ` — ${reflection.trigger}` : ''}\n\n`;
+      md += `- **Thought:** ${reflection.thought}\n`;
+      if (reflection.reframe) {
+        md += `- **Reframe:** ${reflection.reframe}\n`;
+      }
+      md += '\n';
+    }
+  }
+
+  if (trends.days.length > 0) {
+    md += '## Daily\n\n';
+    md += '| Date | Mood | Energy | Anxiety | Mood (7-day) |\n';
+    md += '|------|-----:|-------:|--------:|-------------:|\n';
+    for (const day of [...trends.days].reverse()) {
+      md += `| ${formatDay(day.date)} | ${formatScore(day.mood)} | ${formatScore(day.energy)} | ${formatScore(day.anxiety)} | ${formatScore(day.mood_avg_7d)} |\n`;
+    }
+    md += '\n';
+  }
+
+  return md;
+}
+
+/**
+ * Format a daily metric value with its unit
+ */
+function formatMetric(metric: DailyMetric, value: number | undefined): string {
+  if (value === undefined) return '—';
+  switch (metric) {
+    case 'sleep_min':
+      return formatSleep(value);
+    case 'exercise_min':
+      return `${Math.round(value)} min`;
+    case 'work_hours':
+      return `${value.toFixed(1)}h`;
+    default:
+      return value.toFixed(1);
+  }
+}
+
+/**
+ * Generate the correlation report (defaults to the last 90 days)
+ */
+export async function generateCorrelationsView(startDate?: string, endDate?: string): Promise<string> {
+  const report = await findCorrelations({ startDate, endDate });
+
+  let md = '# Correlations\n\n';
+  md += `*${formatDay(report.start)} - ${formatDay(report.end)} · ${report.days} days*\n\n`;
+  md += 'Correlation is not causation; treat these as hints to look closer.\n\n';
+
+  md += '## Comparisons\n\n';
+  md += '| Question | With | Without | Difference |\n';
+  md += '|----------|-----:|--------:|-----------:|\n';
+  for (const comparison of report.comparisons) {
+    const withValue = `${formatMetric(comparison.outcome, comparison.with.mean)} (${comparison.with.n}d)`;
+    const withoutValue = `${formatMetric(comparison.outcome, comparison.without.mean)} (${comparison.without.n}d)`;
+    const difference = comparison.difference !== undefined
+      ? `${comparison.difference > 0 ? '+' : comparison.difference < 0 ? '-' : ''}${formatMetric(comparison.outcome, Math.abs(comparison.difference))}`
+      : '—';
+    md += `| ${comparison.description} | ${withValue} | ${withoutValue} | ${difference} |\n`;
+  }
+  md += '\n';
+
+  // Only show relationships that are at least weak-to-moderate
+  const notable = report.correlations.filter(c => Math.abs(c.r) >= 0.3);
+  md += '## Strongest Correlations\n\n';
+  if (notable.length === 0) {
+    md += 'No notable correlations yet. More days of data will help.\n\n';
+  } else {
+    for (const correlation of notable.slice(0, 15)) {
+      const strength = Math.abs(correlation.r) >= 0.5 ? 'strong' : 'moderate';
+      const direction = correlation.r > 0 ? 'positive' : 'negative';
+      md += `- **${correlation.description}**: r = ${correlation.r.toFixed(2)} (${strength} ${direction}, ${correlation.n} days)\n`;
+    }
+    md += '\n';
+  }
+
+  md += `*Metrics: ${DAILY_METRICS.map(metricLabel).join(', ')}. Sleep counts toward the morning it ended.*\n`;
   return md;
 }
 
@@ -286,6 +1054,38 @@ export async function generateAllViews(): Promise<void> {
   const goals = await generateGoalsView();
   await writeFile(join(viewsDir, 'goals-status.md'), goals, 'utf-8');
 
+  const goalsArchive = await generateGoalsArchiveView();
+  await writeFile(join(viewsDir, 'goals-archive.md'), goalsArchive, 'utf-8');
+
   const weeklyReview = await generateWeeklyReviewView();
   await writeFile(join(viewsDir, 'weekly-review.md'), weeklyReview, 'utf-8');
+
+  const meetings = await generateMeetingsView();
+  await writeFile(join(viewsDir, 'meetings.md'), meetings, 'utf-8');
+
+  const timesheet = await generateTimesheetView();
+  await writeFile(join(viewsDir, 'timesheet.md'), timesheet, 'utf-8');
+
+  const portfolio = await generatePortfolioView();
+  await writeFile(join(viewsDir, 'portfolio.md'), portfolio, 'utf-8');
+
+  const health = await generateHealthView();
+  await writeFile(join(viewsDir, 'health.md'), health, 'utf-8');
+
+  const mental = await generateMentalView();
+  await writeFile(join(viewsDir, 'mental.md'), mental, 'utf-8');
+
+  const correlations = await generateCorrelationsView();
+  await writeFile(join(viewsDir, 'correlations.md'), correlations, 'utf-8');
+
+  // Reviews of the current and previous week and month
+  const reviewsDir = join(viewsDir, 'reviews');
+  await mkdir(reviewsDir, { recursive: true });
+  for (const kind of ['week', 'month'] as const) {
+    const current = periodContaining(kind);
+    for (const period of [current, previousPeriod(current)]) {
+      const review = await generatePeriodReviewView(period.key);
+      await writeFile(join(reviewsDir, `${period.key}.md`), review, 'utf-8');
+    }
+  }
 }
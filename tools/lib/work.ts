@@ -0,0 +1,255 @@
+/**
+ * Work session projection - pair timers and build timesheets
+ */
+
+import { readEvents } from './events.js';
+import { asOfTimestamp, toInstant } from './dates.js';
+import type { BaseEvent, WorkSession, WorkOverlap } from './types.js';
+
+// A timer left running longer than this is assumed to be forgotten
+const MAX_SESSION_HOURS = 12;
+
+/**
+ * Derive work sessions from work.started / work.stopped / work.logged
+ *
+ * Starts and stops are paired per project and task_id. A stop without a
+ * project or task_id closes the only running session, if there is exactly
+ * one. A session that is started again before being stopped, or left
+ * running longer than MAX_SESSION_HOURS, is reported as dangling and
+ * contributes no time. Sessions are filtered by their start time. With
+ * `asOf`, sessions are paired as they stood at that moment.
+ */
+export async function getWorkSessions(options?: {
+  startDate?: string;
+  endDate?: string;
+  now?: Date;
+  asOf?: string;
+}): Promise<WorkSession[]> {
+  const events = await readEvents({ eventType: 'work' }, { asOf: options?.asOf });
+  const now = options?.now || (options?.asOf ? new Date(asOfTimestamp(options.asOf)) : new Date());
+
+  const sessions: WorkSession[] = [];
+  const open = new Map<string, WorkSession>();
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'work.logged':
+        sessions.push({
+          ...sessionDetails(event),
+          start: event.ts,
+          duration_min: event.data.duration_min || 0,
+          kind: 'logged',
+          status: 'complete',
+        });
+        break;
+
+      case 'work.started': {
+        const key = sessionKey(event);
+        const previous = open.get(key);
+        if (previous) {
+          previous.status = 'dangling';
+        }
+
+        const session: WorkSession = {
+          ...sessionDetails(event),
+          start: event.ts,
+          duration_min: 0,
+          kind: 'timer',
+          status: 'running',
+        };
+        sessions.push(session);
+        open.set(key, session);
+        break;
+      }
+
+      case 'work.stopped': {
+        let key = sessionKey(event);
+        if (!open.has(key) && !event.data.project && !event.data.task_id && open.size === 1) {
+          key = [...open.keys()][0];
+        }
+
+        const session = open.get(key);
+        if (session) {
+          open.delete(key);
+          closeSession(session, event);
+        } else if (event.data.duration_min) {
+          // A stop with an explicit duration but no matching start still
+          // records time, as it did before sessions were paired
+          const start = new Date(new Date(event.ts).getTime() - event.data.duration_min * 60_000);
+          sessions.push({
+            ...sessionDetails(event),
+            start: start.toISOString(),
+            end: event.ts,
+            duration_min: event.data.duration_min,
+            kind: 'timer',
+            status: 'complete',
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  for (const session of open.values()) {
+    const hours = (now.getTime() - new Date(session.start).getTime()) / (1000 * 60 * 60);
+    if (hours > MAX_SESSION_HOURS) {
+      session.status = 'dangling';
+    }
+  }
+
+  return sessions.filter(s =>
+    (!options?.startDate || toInstant(s.start) >= toInstant(options.startDate)) &&
+    (!options?.endDate || toInstant(s.start) <= toInstant(options.endDate))
+  );
+}
+
+/**
+ * Get the timers that are currently running, with elapsed time so far
+ *
+ * With `includeDangling`, also timers that were never stopped but have run
+ * longer than MAX_SESSION_HOURS, so they can still be stopped. Timers that
+ * were started again before being stopped are left out either way.
+ */
+export async function getCurrentWork(
+  now: Date = new Date(),
+  options?: { includeDangling?: boolean }
+): Promise<(WorkSession & { elapsed_min: number })[]> {
+  const sessions = await getWorkSessions({ now });
+
+  // The last timer per project and task is the one a stop would close
+  const latest = new Map<string, WorkSession>();
+  for (const session of sessions) {
+    if (session.kind === 'timer') latest.set(`${session.project || ''}|${session.task_id || ''}`, session);
+  }
+
+  return [...latest.values()]
+    .filter(s => s.status === 'running' || (options?.includeDangling && s.status === 'dangling'))
+    .map(s => ({
+      ...s,
+      elapsed_min: Math.round((now.getTime() - new Date(s.start).getTime()) / 60_000),
+    }));
+}
+
+/**
+ * Find completed sessions that overlap in time
+ */
+export function findOverlaps(sessions: WorkSession[]): WorkOverlap[] {
+  const timed = sessions
+    .filter(s => s.status === 'complete' && s.duration_min > 0)
+    .map(s => ({ session: s, start: new Date(s.start).getTime(), end: sessionEnd(s) }))
+    .sort((a, b) => a.start - b.start);
+
+  const overlaps: WorkOverlap[] = [];
+  for (let i = 0; i < timed.length; i++) {
+    for (let j = i + 1; j < timed.length && timed[j].start < timed[i].end; j++) {
+      const overlapMs = Math.min(timed[i].end, timed[j].end) - timed[j].start;
+      overlaps.push({
+        first: timed[i].session,
+        second: timed[j].session,
+        overlap_min: Math.round(overlapMs / 60_000),
+      });
+    }
+  }
+
+  return overlaps;
+}
+
+/**
+ * Total hours of completed work sessions
+ */
+export function totalWorkHours(sessions: WorkSession[]): number {
+  return sessions
+    .filter(s => s.status === 'complete')
+    .reduce((sum, s) => sum + s.duration_min, 0) / 60;
+}
+
+export interface TimesheetRow {
+  project: string;
+  billable_min: number;
+  non_billable_min: number;
+  total_min: number;
+  sessions: number;
+}
+
+/**
+ * Build a timesheet per project, split into billable and non-billable time
+ *
+ * Time without an explicit `billable: true` counts as non-billable. With
+ * `asOf`, sessions are paired as they stood at that moment.
+ */
+export async function getTimesheet(options?: { startDate?: string; endDate?: string; asOf?: string }): Promise<{
+  rows: TimesheetRow[];
+  billable_min: number;
+  non_billable_min: number;
+  total_min: number;
+  dangling: WorkSession[];
+  overlaps: WorkOverlap[];
+}> {
+  const sessions = await getWorkSessions(options);
+  const complete = sessions.filter(s => s.status === 'complete');
+
+  const rows: Record<string, TimesheetRow> = {};
+  for (const session of complete) {
+    const project = session.project || 'unassigned';
+    const row = rows[project] ||= {
+      project,
+      billable_min: 0,
+      non_billable_min: 0,
+      total_min: 0,
+      sessions: 0,
+    };
+
+    if (session.billable) {
+      row.billable_min += session.duration_min;
+    } else {
+      row.non_billable_min += session.duration_min;
+    }
+    row.total_min += session.duration_min;
+    row.sessions++;
+  }
+
+  const sorted = Object.values(rows).sort((a, b) => b.total_min - a.total_min);
+
+  return {
+    rows: sorted,
+    billable_min: sorted.reduce((sum, r) => sum + r.billable_min, 0),
+    non_billable_min: sorted.reduce((sum, r) => sum + r.non_billable_min, 0),
+    total_min: sorted.reduce((sum, r) => sum + r.total_min, 0),
+    dangling: sessions.filter(s => s.status === 'dangling'),
+    overlaps: findOverlaps(complete),
+  };
+}
+
+function sessionKey(event: BaseEvent): string {
+  return `${event.data.project || ''}|${event.data.task_id || ''}`;
+}
+
+function sessionDetails(event: BaseEvent): Pick<WorkSession, 'project' | 'task_id' | 'description' | 'billable' | 'goal_id'> {
+  const details: Pick<WorkSession, 'project' | 'task_id' | 'description' | 'billable' | 'goal_id'> = {};
+  if (event.data.project) details.project = event.data.project;
+  if (event.data.task_id) details.task_id = event.data.task_id;
+  if (event.data.description) details.description = event.data.description;
+  if (event.data.billable !== undefined) details.billable = event.data.billable;
+  if (event.data.goal_id) details.goal_id = event.data.goal_id;
+  return details;
+}
+
+/**
+ * Close a running session with its stop event
+ *
+ * Details given on the stop (description, billable) override the start's.
+ */
+function closeSession(session: WorkSession, stop: BaseEvent): void {
+  session.end = stop.ts;
+  session.status = 'complete';
+  session.duration_min = stop.data.duration_min
+    ?? Math.round((new Date(stop.ts).getTime() - new Date(session.start).getTime()) / 60_000);
+  if (stop.data.description) session.description = stop.data.description;
+  if (stop.data.billable !== undefined) session.billable = stop.data.billable;
+}
+
+function sessionEnd(session: WorkSession): number {
+  return session.end
+    ? new Date(session.end).getTime()
+    : new Date(session.start).getTime() + session.duration_min * 60_000;
+}
@@ -4,14 +4,32 @@
  * Life Stream MCP Server
  *
  * Enables Claude to interact with the life stream conversationally.
+ *
+ * Usage:
+ *   node dist/tools/mcp-server.js                 # stdio, spawned by the client
+ *   node dist/tools/mcp-server.js --http [--host <addr>] [--port <n>] [--token <token>]
+ *
+ * Over HTTP, one long-running server serves any number of clients.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolRequest, CallToolResult, ListToolsResult } from '@modelcontextprotocol/sdk/types.js';
+import { createServer as createHttpServer } from 'http';
+import type { ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
 
 import {
   logEvent,
@@ -19,27 +37,78 @@ import {
   generateGoalId,
   readEvents,
   getOpenTasks,
-  getWeeklySummary,
+  getTasks,
+  getMeetings,
+  getOpenActionItems,
+  getPersonHistory,
+  getCurrentWork,
+  getTimesheet,
+  getPortfolio,
+  getHealthTrends,
+  getMentalTrends,
+  findCorrelations,
+  DAILY_METRICS,
+  comparePeriods,
+  periodContaining,
+  PERIOD_KINDS,
+  diffState,
   getActiveGoals,
   queryEvents,
+  runQuery,
+  paginate,
+  projectFields,
+  aggregateRows,
+  searchEvents,
+  QuerySyntaxError,
+  EVENT_TYPES,
+  EventValidationError,
+  dataJsonSchema,
+  correctEvent,
+  retractEvent,
+  onEventAppended,
+  partitionFor,
+  listResources,
+  listEventMonths,
+  readResource,
+  resourcesAffectedBy,
+  RESOURCE_TEMPLATES,
+  PROMPTS,
+  getPrompt,
+  parseDate,
+  parseWhen,
+  parseAsOf,
+  normalizeTimestamp,
+  compareTimestamps,
 } from './lib/index.js';
+import type { TaskStatus, MeetingStatus, CostBasisMethod, DailyMetric } from './lib/index.js';
 
-// Create the server instance
-const server = new Server(
-  {
-    name: 'life-stream',
-    version: '0.1.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+// Lets backfills skip the checks on referenced tasks, meetings and goals
+const FORCE_PROPERTY = {
+  type: 'boolean',
+  description: 'Log even if a referenced task, meeting or goal is unknown or in another state (for backfilling history)',
+};
+
+// Lets write tools backdate what they log
+const WHEN_PROPERTY = {
+  type: 'string',
+  description: 'When it happened, if not now: ISO 8601 or e.g. "yesterday 18:00", "i går kveld", "2 hours ago"',
+};
+
+// Lets read tools replay the stream as it stood at an earlier point
+const AS_OF_PROPERTY = {
+  type: 'string',
+  description: 'Reconstruct the state as of this point: ISO 8601 or e.g. "1 March", "last friday", "i går" ' +
+    '(a day without a time means the end of that day)',
+};
+
+const DUE_PROPERTY = {
+  type: 'string',
+  description: 'Due date: YYYY-MM-DD or e.g. "friday", "i morgen", "end of month", "in 2 weeks"',
+};
 
 // Tool: log_event
 // Append any event to the stream
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function listTools(): Promise<ListToolsResult> {
   return {
     tools: [
       {
@@ -50,11 +119,12 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {
             event_type: {
               type: 'string',
+              enum: EVENT_TYPES,
               description: 'Event type in domain.action format (e.g., task.created, exercise.completed)',
             },
             data: {
               type: 'object',
-              description: 'Event data specific to the event type',
+              description: 'Event data specific to the event type. Validated against the schema for event_type; invalid events are rejected.',
             },
             id: {
               type: 'string',
@@ -65,16 +135,30 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Event source (defaults to "claude")',
               default: 'claude',
             },
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
           },
           required: ['event_type', 'data'],
         },
       },
       {
         name: 'query_events',
-        description: 'Search and filter events by type, date range, source, or ID',
+        description: 'Search and filter events by type, date range, source, or ID, or with a structured query',
         inputSchema: {
           type: 'object',
           properties: {
+            query: {
+              type: 'string',
+              description:
+                'Structured query: a filter, then stages after |. ' +
+                'Fields: ts, type, source, id, event_id, data.<field>, and day/week/month/year (local). ' +
+                'Operators: = != > >= < <= ~ (contains), `in (a, b)`, `exists`; combine with AND, OR, NOT and parentheses. ' +
+                'Strings compare case-insensitively; a trailing * matches a prefix. ' +
+                'Stages: sort <field> [asc|desc], limit <n>, fields <f1>, <f2>, group by <field> [count, sum|avg|min|max <field>]. ' +
+                'E.g. "type = exercise.completed AND data.activity = run AND data.distance_km > 10 AND month = 2026-01 | sort data.distance_km desc | limit 5" ' +
+                'or "type = task.created AND data.area = work AND data.priority = urgent | fields id, data.title" ' +
+                'or "type = exercise.completed | group by month count, sum data.distance_km"',
+            },
             event_type: {
               type: 'string',
               description: 'Filter by event type prefix (e.g., "task", "exercise.completed")',
@@ -95,23 +179,185 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Filter by entity ID (e.g., t-20260112-001)',
             },
+            raw: {
+              type: 'boolean',
+              description: 'Return events as originally written, ignoring corrections and retractions',
+            },
+            as_of: AS_OF_PROPERTY,
+            limit: {
+              type: 'number',
+              description: 'Results per page (default 50)',
+            },
+            cursor: {
+              type: 'string',
+              description: 'next_cursor from the previous page, to continue where it left off',
+            },
+            fields: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Fields to return for each event, e.g. ["ts", "id", "data.title"]',
+            },
+            format: {
+              type: 'string',
+              enum: ['json', 'compact'],
+              description: 'json (default) or compact: one line per event, with long text shortened',
+            },
+            count_only: {
+              type: 'boolean',
+              description: 'Return only the number of matching events',
+            },
+            group_by: {
+              type: 'string',
+              description: 'Count matching events per value of a field (e.g. "type", "month", "data.activity")',
+            },
+            sum: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Numeric fields to total, per group if group_by is set (e.g. ["data.distance_km"])',
+            },
+            avg: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Numeric fields to average, per group if group_by is set',
+            },
+          },
+        },
+      },
+      {
+        name: 'search_events',
+        description:
+          'Full-text search over titles, notes, reflections, work descriptions and other free text, in English or Norwegian. ' +
+          'All words must match, ignoring word endings ("running" also finds "runs"); use "quoted phrases", prefix* and -exclusions',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Words to search for, e.g. \'knee pain\', \'"sprint planning" -cancelled\' or \'møte*\'',
+            },
+            event_type: {
+              type: 'string',
+              description: 'Only search events of this type prefix (e.g., "mental", "exercise.completed")',
+            },
+            start_date: {
+              type: 'string',
+              description: 'ISO 8601 date string for start of range',
+            },
+            end_date: {
+              type: 'string',
+              description: 'ISO 8601 date string for end of range',
+            },
+            source: {
+              type: 'string',
+              description: 'Only search events from this source',
+            },
+            id: {
+              type: 'string',
+              description: 'Only search events of this entity ID',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of results (default: 20)',
+            },
+            as_of: {
+              type: 'string',
+              description: 'Search the stream as it stood at this point: ISO 8601 or e.g. "1 March", "last friday"',
+            },
           },
+          required: ['query'],
         },
       },
       {
         name: 'list_open_tasks',
-        description: 'Get all tasks that are not yet completed or abandoned',
+        description: 'Get all tasks that are not yet completed or abandoned, including in-progress and blocked tasks',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            as_of: AS_OF_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'list_tasks',
+        description: 'Get tasks with their full lifecycle (status, transition timestamps, block reasons, cycle time), optionally filtered by status',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            status: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['open', 'in_progress', 'blocked', 'completed', 'abandoned'],
+              },
+              description: 'Only return tasks with these statuses (defaults to all)',
+            },
+            as_of: AS_OF_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'get_meetings',
+        description: 'Get meetings (upcoming, completed, cancelled) with attendees, duration, energy and action items resolved against task status. Pass "with" to get the full history with one person and their open action items.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            status: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['scheduled', 'completed', 'cancelled'],
+              },
+              description: 'Only return meetings with these statuses (defaults to all)',
+            },
+            with: {
+              type: 'string',
+              description: 'Only meetings with this person (case-insensitive)',
+            },
+            start_date: {
+              type: 'string',
+              description: 'ISO 8601 date string for start of range (by meeting time)',
+            },
+            end_date: {
+              type: 'string',
+              description: 'ISO 8601 date string for end of range (by meeting time)',
+            },
+            as_of: AS_OF_PROPERTY,
+          },
         },
       },
       {
         name: 'get_summary',
-        description: 'Generate a summary of recent activity (past 7 days)',
+        description: 'Summarize a review period (default: the current ISO week) and compare it with the period before',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            period: {
+              type: 'string',
+              description: 'Period key (2026-01-15, 2026-W03, 2026-01, 2026-Q1 or 2026), or day/week/month/quarter/year for the current one. Days are counted in LIFE_TZ.',
+            },
+            as_of: {
+              type: 'string',
+              description: 'Summarize as the stream stood at this point (ISO 8601 or e.g. "1 March"); also picks the current period',
+            },
+          },
+        },
+      },
+      {
+        name: 'diff_state',
+        description: 'Show what changed between two points in time: tasks added, completed, abandoned or changing status, and goals set, achieved or abandoned',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              description: 'Earlier point: ISO 8601 or e.g. "1 March", "last friday" (a day without a time means the end of that day)',
+            },
+            to: {
+              type: 'string',
+              description: 'Later point, like from (defaults to now)',
+            },
+          },
+          required: ['from'],
         },
       },
       {
@@ -128,6 +374,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Optional completion notes',
             },
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
           },
           required: ['task_id'],
         },
@@ -135,52 +383,1331 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: 'add_task',
         description: 'Create a new task (convenience wrapper that auto-generates ID)',
+        inputSchema: withProperties(dataJsonSchema('task.created', ['title', 'area', 'due', 'priority', 'goal_id']), {
+          due: DUE_PROPERTY,
+          when: WHEN_PROPERTY,
+          force: FORCE_PROPERTY,
+        }),
+      },
+      {
+        name: 'update_task',
+        description: 'Change the title, due date, priority, area, project or linked goal of an existing task',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            task_id: {
+              type: 'string',
+              description: 'Task ID to update (e.g., t-20260112-001)',
+            },
+            ...dataJsonSchema('task.updated', ['title', 'area', 'project', 'due', 'priority', 'goal_id']).properties,
+            due: DUE_PROPERTY,
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
+          },
+          required: ['task_id'],
+        },
+      },
+      {
+        name: 'start_task',
+        description: 'Mark a task as in progress',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            task_id: {
+              type: 'string',
+              description: 'Task ID to start (e.g., t-20260112-001)',
+            },
+            ...dataJsonSchema('task.started', ['notes']).properties,
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
+          },
+          required: ['task_id'],
+        },
+      },
+      {
+        name: 'block_task',
+        description: 'Mark a task as blocked, with what it is waiting for',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            task_id: {
+              type: 'string',
+              description: 'Task ID to block (e.g., t-20260112-001)',
+            },
+            ...dataJsonSchema('task.blocked', ['reason', 'notes']).properties,
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
+          },
+          required: ['task_id', 'reason'],
+        },
+      },
+      {
+        name: 'abandon_task',
+        description: 'Drop a task that will not be done',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            task_id: {
+              type: 'string',
+              description: 'Task ID to abandon (e.g., t-20260112-001)',
+            },
+            ...dataJsonSchema('task.abandoned', ['reason']).properties,
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
+          },
+          required: ['task_id', 'reason'],
+        },
+      },
+      {
+        name: 'log_exercise',
+        description: 'Log a finished workout (run, ride, swim, strength session, walk, ski trip)',
+        inputSchema: withProperties(dataJsonSchema('exercise.completed', ['activity', 'duration_min', 'distance_km', 'avg_hr', 'notes', 'goal_id']), {
+          when: {
+            ...WHEN_PROPERTY,
+            description: `${WHEN_PROPERTY.description}. A duration such as "yesterday evening 45 min" fills duration_min.`,
+          },
+          force: FORCE_PROPERTY,
+        }),
+      },
+      {
+        name: 'log_checkin',
+        description: 'Log a mood, energy and anxiety check-in',
+        inputSchema: withProperties(dataJsonSchema('mental.checkin', ['mood', 'energy', 'anxiety', 'notes']), {
+          when: WHEN_PROPERTY,
+        }),
+      },
+      {
+        name: 'log_health',
+        description: 'Log a weight, sleep or blood pressure reading, or a health note',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            kind: {
+              type: 'string',
+              enum: ['weight', 'sleep', 'blood_pressure', 'note'],
+              description:
+                'weight (value, unit), sleep (duration_min, quality, deep_min, rem_min), ' +
+                'blood_pressure (systolic, diastolic) or note (note)',
+            },
+            ...dataJsonSchema('health.weight', [
+              'value', 'unit', 'duration_min', 'quality', 'deep_min', 'rem_min', 'systolic', 'diastolic', 'note',
+            ]).properties,
+            when: WHEN_PROPERTY,
+          },
+          required: ['kind'],
+        },
+      },
+      {
+        name: 'schedule_meeting',
+        description: 'Schedule a meeting (convenience wrapper that auto-generates ID)',
+        inputSchema: withProperties(dataJsonSchema('meeting.scheduled', ['title', 'start', 'with', 'duration_min', 'location']), {
+          start: {
+            type: 'string',
+            description: 'When the meeting takes place: ISO 8601 or e.g. "next Tuesday 14:00", "i morgen kl 9". ' +
+              'A duration such as "friday 10:00 45 min" fills duration_min.',
+          },
+          when: WHEN_PROPERTY,
+        }),
+      },
+      {
+        name: 'complete_meeting',
+        description: 'Record that a meeting happened, with notes. Without meeting_id, logs a meeting that was never scheduled (title required).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            meeting_id: {
+              type: 'string',
+              description: 'Scheduled meeting to complete (e.g., m-20260112-001)',
+            },
+            ...dataJsonSchema('meeting.completed', ['title', 'with', 'duration_min', 'notes', 'action_items', 'energy']).properties,
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'set_goal',
+        description: 'Set a new goal (convenience wrapper that auto-generates ID). Give metric and target_value to track progress automatically.',
+        inputSchema: withProperties(dataJsonSchema('goal.set', [
+          'title', 'horizon', 'area', 'target_date', 'success_criteria', 'metric', 'target_value', 'unit', 'filters', 'start_date',
+        ]), {
+          target_date: {
+            type: 'string',
+            description: 'When to achieve by: YYYY-MM-DD or e.g. "end of month", "1. juni", "in 3 months"',
+          },
+          start_date: {
+            type: 'string',
+            description: 'Count progress from this date: YYYY-MM-DD or e.g. "1. januar", "last monday" (defaults to when the goal was set)',
+          },
+          when: WHEN_PROPERTY,
+        }),
+      },
+      {
+        name: 'update_goal_progress',
+        description: 'Report how a goal is going',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            goal_id: {
+              type: 'string',
+              description: 'Goal ID (e.g., g-2026-001)',
+            },
+            ...dataJsonSchema('goal.progress', ['status', 'notes']).properties,
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
+          },
+          required: ['goal_id', 'status'],
+        },
+      },
+      {
+        name: 'achieve_goal',
+        description: 'Mark a goal as achieved',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            goal_id: {
+              type: 'string',
+              description: 'Goal ID (e.g., g-2026-001)',
+            },
+            ...dataJsonSchema('goal.achieved', ['notes']).properties,
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
+          },
+          required: ['goal_id'],
+        },
+      },
+      {
+        name: 'log_investment',
+        description: 'Log a purchase, sale or dividend, or a snapshot of the portfolio value',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            kind: {
+              type: 'string',
+              enum: ['buy', 'sell', 'dividend', 'snapshot'],
+              description: 'buy and sell (asset, quantity, price_nok), dividend (asset) or snapshot (total_nok, breakdown)',
+            },
+            ...dataJsonSchema('investment.buy', [
+              'asset', 'quantity', 'price_nok', 'account', 'realized_gain_nok', 'total_nok', 'breakdown',
+            ]).properties,
+            when: WHEN_PROPERTY,
+          },
+          required: ['kind'],
+        },
+      },
+      {
+        name: 'start_work',
+        description: 'Start a work timer for a project and/or task. Stop it later with stop_work; the duration is computed automatically.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...dataJsonSchema('work.started', ['project', 'task_id', 'description', 'billable', 'goal_id']).properties,
+            when: WHEN_PROPERTY,
+            force: FORCE_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'stop_work',
+        description: 'Stop a running work timer. Without project/task_id, stops the only running timer.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...dataJsonSchema('work.stopped', ['project', 'task_id', 'description', 'billable']).properties,
+            dangling: {
+              type: 'boolean',
+              description: 'Also stop a timer left running for more than 12 hours, which no longer counts as running; ' +
+                'give when it actually ended with when',
+            },
+            when: WHEN_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'current_work',
+        description: 'Get the work timers that are currently running, with elapsed minutes',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'get_timesheet',
+        description: 'Get hours per project split into billable and non-billable, plus dangling and overlapping sessions',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            start_date: {
+              type: 'string',
+              description: 'ISO 8601 date string for start of range',
+            },
+            end_date: {
+              type: 'string',
+              description: 'ISO 8601 date string for end of range',
+            },
+            as_of: AS_OF_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'get_portfolio',
+        description: 'Get investment holdings per account and asset with cost basis, realized gains per sale, dividend income per year, and reconciliation against logged snapshots',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            method: {
+              type: 'string',
+              enum: ['fifo', 'average'],
+              description: 'Cost basis method (defaults to fifo)',
+            },
+            as_of: AS_OF_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'get_health_trends',
+        description: 'Get weight, sleep and blood pressure trends: daily and weekly series, 7-day weight average, average sleep with deep/REM share, and out-of-range blood pressure readings',
         inputSchema: {
           type: 'object',
           properties: {
-            title: {
+            start_date: {
               type: 'string',
-              description: 'Task title',
+              description: 'Start of range (YYYY-MM-DD, defaults to 30 days before the end)',
             },
-            area: {
+            end_date: {
               type: 'string',
-              description: 'Task area (work, personal, or project name)',
+              description: 'End of range (YYYY-MM-DD, defaults to today)',
             },
-            due: {
+            as_of: AS_OF_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'get_mental_trends',
+        description: 'Get mood, energy and anxiety trends from check-ins: daily and weekly averages, 7-day rolling trends, lowest and best days with their notes, plus gratitude items and reflections for the period',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            start_date: {
               type: 'string',
-              description: 'Due date (ISO date format YYYY-MM-DD)',
+              description: 'Start of range (YYYY-MM-DD, defaults to 30 days before the end)',
             },
-            priority: {
+            end_date: {
               type: 'string',
-              enum: ['low', 'medium', 'high', 'urgent'],
-              description: 'Task priority',
+              description: 'End of range (YYYY-MM-DD, defaults to today)',
+            },
+            as_of: AS_OF_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'find_correlations',
+        description: 'Correlate daily exercise, sleep, mood, energy, anxiety, work hours and meeting load, same-day and on following days, and compare outcomes after days above a threshold (e.g. mood the day after a run). Sleep counts toward the day it ended.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            start_date: {
+              type: 'string',
+              description: 'Start of range (YYYY-MM-DD, defaults to 90 days before the end)',
+            },
+            end_date: {
+              type: 'string',
+              description: 'End of range (YYYY-MM-DD, defaults to today)',
+            },
+            max_lag: {
+              type: 'number',
+              description: 'Correlate with up to this many days later (default 1)',
+            },
+            min_samples: {
+              type: 'number',
+              description: 'Minimum number of paired days for a correlation (default 7)',
+            },
+            driver: {
+              type: 'string',
+              enum: DAILY_METRICS,
+              description: 'For a custom comparison: the metric to split days by',
+            },
+            threshold: {
+              type: 'number',
+              description: 'For a custom comparison: days with driver >= threshold form the "with" group',
+            },
+            outcome: {
+              type: 'string',
+              enum: DAILY_METRICS,
+              description: 'For a custom comparison: the metric to compare',
+            },
+            lag: {
+              type: 'number',
+              description: 'For a custom comparison: days between driver and outcome (default 1)',
+            },
+          },
+        },
+      },
+      {
+        name: 'correct_event',
+        description: 'Correct an earlier event (e.g. wrong distance or timestamp) by logging an event.corrected that references it. Find the event_id with query_events.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            event_id: {
+              type: 'string',
+              description: 'event_id of the event to correct',
+            },
+            changes: {
+              type: 'object',
+              description: 'Data fields to overwrite; set a field to null to remove it',
+            },
+            ts: {
+              type: 'string',
+              description: 'Corrected timestamp: ISO 8601 or e.g. "yesterday 18:00", "i går kveld"',
+            },
+            reason: {
+              type: 'string',
+              description: 'Why the event is being corrected',
+            },
+            when: WHEN_PROPERTY,
+          },
+          required: ['event_id'],
+        },
+      },
+      {
+        name: 'retract_event',
+        description: 'Withdraw an earlier event (e.g. a duplicate check-in) by logging an event.retracted that references it. The original stays in the stream but is ignored by queries and views.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            event_id: {
+              type: 'string',
+              description: 'event_id of the event to retract',
+            },
+            reason: {
+              type: 'string',
+              description: 'Why the event is being retracted',
+            },
+            when: WHEN_PROPERTY,
+          },
+          required: ['event_id'],
+        },
+      },
+    ],
+  };
+}
+
+// Handle tool calls
+async function callTool(request: CallToolRequest): Promise<CallToolResult> {
+  // Clients may leave arguments out for tools that need none
+  const { name } = request.params;
+  const args = request.params.arguments ?? {};
+
+  try {
+    switch (name) {
+      case 'log_event': {
+        const { event_type, data, id, source, when, force } = args as {
+          event_type: string;
+          data: Record<string, any>;
+          id?: string;
+          source?: string;
+          when?: string;
+          force?: boolean;
+        };
+
+        const event = await logEvent(event_type, data, {
+          id,
+          source: source || 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  event,
+                  message: `Logged ${event_type} event${id ? ` with ID ${id}` : ''}`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'query_events': {
+        const {
+          query, event_type, start_date, end_date, source, id, raw, as_of,
+          limit, cursor, fields, format, count_only, group_by, sum, avg,
+        } = args as {
+          query?: string;
+          event_type?: string;
+          start_date?: string;
+          end_date?: string;
+          source?: string;
+          id?: string;
+          raw?: boolean;
+          as_of?: string;
+          limit?: number;
+          cursor?: string;
+          fields?: string[];
+          format?: 'json' | 'compact';
+          count_only?: boolean;
+          group_by?: string;
+          sum?: string[];
+          avg?: string[];
+        };
+
+        const filters = {
+          eventType: event_type,
+          startDate: start_date,
+          endDate: end_date,
+          source,
+          id,
+        };
+
+        const rows = query
+          ? (await runQuery(query, { filters, raw, asOf: asOfParam(as_of) })).rows
+          : await queryEvents(filters, { raw, asOf: asOfParam(as_of) });
+
+        let result: Record<string, any>;
+        if (count_only) {
+          result = { total: rows.length };
+        } else if (group_by || sum?.length || avg?.length) {
+          const page = paginate(aggregateRows(rows, { groupBy: group_by, sum, avg }), { cursor, limit });
+          result = { total: rows.length, count: page.rows.length, next_cursor: page.next_cursor, groups: page.rows };
+        } else {
+          const page = paginate(rows, { cursor, limit });
+          const selected = fields?.length ? projectFields(page.rows, fields) : page.rows;
+          result = {
+            total: page.total,
+            count: page.rows.length,
+            next_cursor: page.next_cursor,
+            ...(format === 'compact' ? { lines: selected.map(formatCompactRow) } : { events: selected }),
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, ...(query ? { query } : {}), ...result }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'search_events': {
+        const { query, event_type, start_date, end_date, source, id, limit, as_of } = args as {
+          query: string;
+          event_type?: string;
+          start_date?: string;
+          end_date?: string;
+          source?: string;
+          id?: string;
+          limit?: number;
+          as_of?: string;
+        };
+
+        const result = await searchEvents(query, {
+          filters: { eventType: event_type, startDate: start_date, endDate: end_date, source, id },
+          limit,
+          asOf: asOfParam(as_of),
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  query: result.query,
+                  total: result.total,
+                  count: result.hits.length,
+                  hits: result.hits.map(hit => ({
+                    type: hit.type,
+                    date: hit.date,
+                    id: hit.event.id,
+                    event_id: hit.event.event_id,
+                    field: hit.field,
+                    snippet: hit.snippet,
+                    score: hit.score,
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'list_open_tasks': {
+        const { as_of } = args as {
+          as_of?: string;
+        };
+
+        const tasks = await getOpenTasks({ asOf: asOfParam(as_of) });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  count: tasks.length,
+                  tasks,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'list_tasks': {
+        const { status, as_of } = args as {
+          status?: TaskStatus[];
+          as_of?: string;
+        };
+
+        const tasks = await getTasks({ status, asOf: asOfParam(as_of) });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  count: tasks.length,
+                  tasks,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'get_meetings': {
+        const { status, with: person, start_date, end_date, as_of } = args as {
+          status?: MeetingStatus[];
+          with?: string;
+          start_date?: string;
+          end_date?: string;
+          as_of?: string;
+        };
+
+        if (person && !status && !start_date && !end_date && !as_of) {
+          const history = await getPersonHistory(person);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    count: history.meetings.length,
+                    ...history,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        const meetings = await getMeetings({
+          status,
+          with: person,
+          startDate: start_date,
+          endDate: end_date,
+          asOf: asOfParam(as_of),
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  count: meetings.length,
+                  meetings,
+                  open_action_items: getOpenActionItems(meetings),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'get_summary': {
+        const { period, as_of } = args as {
+          period?: string;
+          as_of?: string;
+        };
+
+        const asOf = asOfParam(as_of);
+        const kind = PERIOD_KINDS.find(k => k === (period || 'week'));
+        const { current, previous, change } = await comparePeriods(
+          kind ? periodContaining(kind, asOf) : period!,
+          { asOf }
+        );
+        const goals = await getActiveGoals({ asOf });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  period: current.period,
+                  complete: current.complete,
+                  summary: current.totals,
+                  health: current.health,
+                  mental: current.mental,
+                  previous: {
+                    period: previous.period,
+                    summary: previous.totals,
+                  },
+                  change,
+                  active_goals: goals.length,
+                  details: {
+                    tasks_completed: current.tasks_completed,
+                    tasks_created: current.tasks_created,
+                    goals_achieved: current.goals_achieved,
+                    meetings: current.meetings,
+                    exercise_sessions: current.exercise_sessions,
+                    checkins: current.checkins,
+                    goals,
+                  },
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'diff_state': {
+        const { from, to } = args as {
+          from: string;
+          to?: string;
+        };
+
+        const diff = await diffState(parseAsOf(from), to ? parseAsOf(to) : new Date().toISOString());
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  ...diff,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'complete_task': {
+        const { task_id, notes, when, force } = args as {
+          task_id: string;
+          notes?: string;
+          when?: string;
+          force?: boolean;
+        };
+
+        const data: Record<string, any> = {};
+        if (notes) {
+          data.notes = notes;
+        }
+
+        const event = await logEvent('task.completed', data, {
+          id: task_id,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Task ${task_id} marked as completed`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'add_task': {
+        const { title, area, due, priority, goal_id, when, force } = args as {
+          title: string;
+          area?: string;
+          due?: string;
+          priority?: string;
+          goal_id?: string;
+          when?: string;
+          force?: boolean;
+        };
+
+        const data: Record<string, any> = { title };
+        if (area) data.area = area;
+        if (due) data.due = parseDate(due);
+        if (priority) data.priority = priority;
+        if (goal_id) data.goal_id = goal_id;
+
+        const taskId = await generateId('t');
+
+        const event = await logEvent('task.created', data, {
+          id: taskId,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  task_id: taskId,
+                  message: `Created task ${taskId}: ${title}`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'update_task': {
+        const { task_id, when, force, ...changes } = args as {
+          task_id: string;
+          when?: string;
+          force?: boolean;
+          title?: string;
+          area?: string;
+          project?: string;
+          due?: string;
+          priority?: string;
+          goal_id?: string;
+        };
+
+        if (Object.keys(changes).length === 0) {
+          throw new Error('Nothing to update: pass at least one of title, area, project, due, priority, goal_id');
+        }
+        if (changes.due) changes.due = parseDate(changes.due);
+
+        const event = await logEvent('task.updated', changes, {
+          id: task_id,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Updated task ${task_id}`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'start_task': {
+        const { task_id, when, force, ...data } = args as {
+          task_id: string;
+          when?: string;
+          force?: boolean;
+          notes?: string;
+        };
+
+        const event = await logEvent('task.started', data, {
+          id: task_id,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Task ${task_id} marked as in progress`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'block_task': {
+        const { task_id, when, force, ...data } = args as {
+          task_id: string;
+          when?: string;
+          force?: boolean;
+          reason: string;
+          notes?: string;
+        };
+
+        const event = await logEvent('task.blocked', data, {
+          id: task_id,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Task ${task_id} marked as blocked`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'abandon_task': {
+        const { task_id, when, force, ...data } = args as {
+          task_id: string;
+          when?: string;
+          force?: boolean;
+          reason: string;
+        };
+
+        const event = await logEvent('task.abandoned', data, {
+          id: task_id,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Task ${task_id} abandoned`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'log_exercise': {
+        const { when, force, ...data } = args as { when?: string; force?: boolean } & Record<string, any>;
+
+        const parsed = when ? parseWhen(when) : undefined;
+        if (parsed?.duration_min !== undefined && data.duration_min === undefined) {
+          data.duration_min = parsed.duration_min;
+        }
+
+        const event = await logEvent('exercise.completed', data, { source: 'claude', timestamp: parsed?.ts, force });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Logged ${data.distance_km ? `${data.distance_km} km ` : ''}${data.activity}${data.duration_min ? ` (${data.duration_min} min)` : ''}`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'log_checkin': {
+        const { when, ...data } = args as { when?: string } & Record<string, any>;
+
+        if (Object.keys(data).length === 0) {
+          throw new Error('Nothing to log: pass at least one of mood, energy, anxiety, notes');
+        }
+
+        const event = await logEvent('mental.checkin', data, { source: 'claude', timestamp: whenTimestamp(when) });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: 'Logged check-in',
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'log_health': {
+        const { kind, when, ...data } = args as { kind: string; when?: string } & Record<string, any>;
+
+        const event = await logEvent(`health.${kind}`, data, { source: 'claude', timestamp: whenTimestamp(when) });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Logged ${kind.replace('_', ' ')}`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'schedule_meeting': {
+        const { when, ...data } = args as { when?: string } & Record<string, any>;
+
+        if (data.start) {
+          const start = parseWhen(data.start, { direction: 'future' });
+          data.start = start.ts;
+          if (start.duration_min !== undefined && data.duration_min === undefined) {
+            data.duration_min = start.duration_min;
+          }
+        }
+
+        const meetingId = await generateId('m');
+        const event = await logEvent('meeting.scheduled', data, {
+          id: meetingId,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  meeting_id: meetingId,
+                  message: `Scheduled meeting ${meetingId}: ${data.title}`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'complete_meeting': {
+        const { meeting_id, when, force, ...data } = args as {
+          meeting_id?: string;
+          when?: string;
+          force?: boolean;
+        } & Record<string, any>;
+
+        if (!meeting_id && !data.title) {
+          throw new Error('Pass meeting_id to complete a scheduled meeting, or a title to log an unscheduled one');
+        }
+
+        const meetingId = meeting_id || await generateId('m');
+        const event = await logEvent('meeting.completed', data, {
+          id: meetingId,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  meeting_id: meetingId,
+                  message: `Meeting ${meetingId} marked as completed`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'set_goal': {
+        const { when, ...data } = args as { when?: string } & Record<string, any>;
+
+        if (data.target_date) data.target_date = parseDate(data.target_date);
+        if (data.start_date) data.start_date = parseDate(data.start_date, { direction: 'past' });
+
+        const goalId = await generateGoalId();
+        const event = await logEvent('goal.set', data, {
+          id: goalId,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  goal_id: goalId,
+                  message: `Set goal ${goalId}: ${data.title}`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'update_goal_progress': {
+        const { goal_id, when, force, ...data } = args as {
+          goal_id: string;
+          when?: string;
+          force?: boolean;
+          status: string;
+          notes?: string;
+        };
+
+        const event = await logEvent('goal.progress', data, {
+          id: goal_id,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Goal ${goal_id} is ${data.status.replace('_', ' ')}`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'achieve_goal': {
+        const { goal_id, when, force, ...data } = args as {
+          goal_id: string;
+          when?: string;
+          force?: boolean;
+          notes?: string;
+        };
+
+        const event = await logEvent('goal.achieved', data, {
+          id: goal_id,
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Goal ${goal_id} marked as achieved`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'log_investment': {
+        const { kind, when, ...data } = args as { kind: string; when?: string } & Record<string, any>;
+
+        const event = await logEvent(`investment.${kind}`, data, { source: 'claude', timestamp: whenTimestamp(when) });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Logged ${kind}${data.asset ? ` of ${data.asset}` : ''}`,
+                  event,
+                },
+                null,
+                2
+              ),
             },
+          ],
+        };
+      }
+
+      case 'start_work': {
+        const { when, force, ...data } = args as { when?: string; force?: boolean } & Record<string, any>;
+        let running: Awaited<ReturnType<typeof getCurrentWork>> = [];
+
+        // Checked under the stream lock, so two starts at once cannot both pass
+        const event = await logEvent('work.started', data, {
+          source: 'claude',
+          timestamp: whenTimestamp(when),
+          force,
+          precondition: async () => {
+            running = await getCurrentWork();
+            const key = `${data.project || ''}|${data.task_id || ''}`;
+            const same = running.find(s => `${s.project || ''}|${s.task_id || ''}` === key);
+            if (same) {
+              throw new Error(`A timer for ${data.project || data.task_id || 'this work'} is already running since ${same.start}. Stop it first.`);
+            }
           },
-          required: ['title'],
-        },
-      },
-    ],
-  };
-});
+        });
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Started work timer${data.project ? ` for ${data.project}` : ''}`,
+                  event,
+                  ...(running.length > 0 && { also_running: running }),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
 
-  try {
-    switch (name) {
-      case 'log_event': {
-        const { event_type, data, id, source } = args as {
-          event_type: string;
-          data: Record<string, any>;
-          id?: string;
-          source?: string;
+      case 'stop_work': {
+        const { project, task_id, dangling, when, ...details } = args as Record<string, any>;
+
+        // Match on the fields given, so a project alone finds a timer for one of its tasks
+        const findSession = async () => {
+          const running = await getCurrentWork(new Date(), { includeDangling: dangling });
+          const matches = running.filter(s =>
+            (!project || s.project === project) && (!task_id || s.task_id === task_id)
+          );
+          if (matches.length === 0) {
+            throw new Error(dangling
+              ? 'No matching work timer is running or left running'
+              : 'No matching work timer is running. Pass dangling: true to stop one left running for more than 12 hours');
+          }
+          if (matches.length > 1) {
+            throw new Error(`${matches.length} timers are running; pass project or task_id to choose one: ${matches.map(s => s.project || s.task_id || 'unassigned').join(', ')}`);
+          }
+          return matches[0];
         };
 
-        const event = await logEvent(event_type, data, {
-          id,
-          source: source || 'claude',
+        const session = await findSession();
+        const data: Record<string, any> = { ...details };
+        if (session.project) data.project = session.project;
+        if (session.task_id) data.task_id = session.task_id;
+        const timestamp = whenTimestamp(when) ?? normalizeTimestamp(new Date());
+
+        // Checked again under the stream lock, so two stops at once cannot
+        // both pass; a stop before the start would never pair with it
+        const event = await logEvent('work.stopped', data, {
+          source: 'claude',
+          timestamp,
+          precondition: async () => {
+            const current = await findSession();
+            if (current.start !== session.start) {
+              throw new Error('The running work timer changed while stopping it. Try again.');
+            }
+            if (compareTimestamps(timestamp, session.start) < 0) {
+              throw new Error(`Cannot stop the timer at ${timestamp}, before it started at ${session.start}`);
+            }
+          },
         });
+        const durationMin = Math.round((new Date(event.ts).getTime() - new Date(session.start).getTime()) / 60_000);
 
         return {
           content: [
@@ -189,8 +1716,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   success: true,
+                  message: `Stopped work timer after ${durationMin} min`,
+                  duration_min: durationMin,
                   event,
-                  message: `Logged ${event_type} event${id ? ` with ID ${id}` : ''}`,
                 },
                 null,
                 2
@@ -200,22 +1728,35 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'query_events': {
-        const { event_type, start_date, end_date, source, id } = args as {
-          event_type?: string;
+      case 'current_work': {
+        const running = await getCurrentWork();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  count: running.length,
+                  running,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'get_timesheet': {
+        const { start_date, end_date, as_of } = args as {
           start_date?: string;
           end_date?: string;
-          source?: string;
-          id?: string;
+          as_of?: string;
         };
 
-        const events = await queryEvents({
-          eventType: event_type,
-          startDate: start_date,
-          endDate: end_date,
-          source,
-          id,
-        });
+        const timesheet = await getTimesheet({ startDate: start_date, endDate: end_date, asOf: asOfParam(as_of) });
 
         return {
           content: [
@@ -224,8 +1765,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   success: true,
-                  count: events.length,
-                  events,
+                  ...timesheet,
                 },
                 null,
                 2
@@ -235,8 +1775,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'list_open_tasks': {
-        const tasks = await getOpenTasks();
+      case 'get_portfolio': {
+        const { method, as_of } = args as {
+          method?: CostBasisMethod;
+          as_of?: string;
+        };
+
+        const portfolio = await getPortfolio({ method, asOf: asOfParam(as_of) });
 
         return {
           content: [
@@ -245,8 +1790,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   success: true,
-                  count: tasks.length,
-                  tasks,
+                  ...portfolio,
                 },
                 null,
                 2
@@ -256,9 +1800,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'get_summary': {
-        const summary = await getWeeklySummary();
-        const goals = await getActiveGoals();
+      case 'get_health_trends': {
+        const { start_date, end_date, as_of } = args as {
+          start_date?: string;
+          end_date?: string;
+          as_of?: string;
+        };
+
+        const trends = await getHealthTrends({ startDate: start_date, endDate: end_date, asOf: asOfParam(as_of) });
 
         return {
           content: [
@@ -267,24 +1816,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   success: true,
-                  period: 'past 7 days',
-                  summary: {
-                    tasks_created: summary.tasks_created.length,
-                    tasks_completed: summary.tasks_completed.length,
-                    meetings: summary.meetings.length,
-                    exercise_sessions: summary.exercise_sessions.length,
-                    work_hours: Math.round(summary.work_hours * 10) / 10,
-                    mental_checkins: summary.checkins.length,
-                  },
-                  active_goals: goals.length,
-                  details: {
-                    tasks_completed: summary.tasks_completed,
-                    tasks_created: summary.tasks_created,
-                    meetings: summary.meetings,
-                    exercise_sessions: summary.exercise_sessions,
-                    checkins: summary.checkins,
-                    goals,
-                  },
+                  ...trends,
                 },
                 null,
                 2
@@ -294,20 +1826,56 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'complete_task': {
-        const { task_id, notes } = args as {
-          task_id: string;
-          notes?: string;
+      case 'get_mental_trends': {
+        const { start_date, end_date, as_of } = args as {
+          start_date?: string;
+          end_date?: string;
+          as_of?: string;
         };
 
-        const data: Record<string, any> = {};
-        if (notes) {
-          data.notes = notes;
+        const trends = await getMentalTrends({ startDate: start_date, endDate: end_date, asOf: asOfParam(as_of) });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  ...trends,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'find_correlations': {
+        const { start_date, end_date, max_lag, min_samples, driver, threshold, outcome, lag } = args as {
+          start_date?: string;
+          end_date?: string;
+          max_lag?: number;
+          min_samples?: number;
+          driver?: DailyMetric;
+          threshold?: number;
+          outcome?: DailyMetric;
+          lag?: number;
+        };
+
+        if ((driver || outcome) && !(driver && outcome && threshold !== undefined)) {
+          throw new Error('A custom comparison needs driver, threshold and outcome');
         }
 
-        const event = await logEvent('task.completed', data, {
-          id: task_id,
-          source: 'claude',
+        const report = await findCorrelations({
+          startDate: start_date,
+          endDate: end_date,
+          maxLag: max_lag,
+          minSamples: min_samples,
+          comparisons: driver && outcome && threshold !== undefined
+            ? [{ driver, threshold, outcome, lag: lag ?? 1 }]
+            : undefined,
         });
 
         return {
@@ -317,8 +1885,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   success: true,
-                  message: `Task ${task_id} marked as completed`,
-                  event,
+                  ...report,
                 },
                 null,
                 2
@@ -328,24 +1895,47 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'add_task': {
-        const { title, area, due, priority } = args as {
-          title: string;
-          area?: string;
-          due?: string;
-          priority?: string;
+      case 'correct_event': {
+        const { event_id, changes, ts, reason, when } = args as {
+          event_id: string;
+          changes?: Record<string, any>;
+          ts?: string;
+          reason?: string;
+          when?: string;
         };
 
-        const taskId = await generateId('t');
-        const data: Record<string, any> = { title };
-        if (area) data.area = area;
-        if (due) data.due = due;
-        if (priority) data.priority = priority;
+        const event = await correctEvent(
+          event_id,
+          { changes, ts: whenTimestamp(ts), reason },
+          { source: 'claude', timestamp: whenTimestamp(when) }
+        );
 
-        const event = await logEvent('task.created', data, {
-          id: taskId,
-          source: 'claude',
-        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Corrected event ${event_id}`,
+                  event,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'retract_event': {
+        const { event_id, reason, when } = args as {
+          event_id: string;
+          reason?: string;
+          when?: string;
+        };
+
+        const event = await retractEvent(event_id, reason, { source: 'claude', timestamp: whenTimestamp(when) });
 
         return {
           content: [
@@ -354,8 +1944,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   success: true,
-                  task_id: taskId,
-                  message: `Created task ${taskId}: ${title}`,
+                  message: `Retracted event ${event_id}`,
                   event,
                 },
                 null,
@@ -379,6 +1968,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             {
               success: false,
               error: errorMessage,
+              ...(error instanceof EventValidationError && { issues: error.issues }),
+              ...(error instanceof QuerySyntaxError && { position: error.position }),
             },
             null,
             2
@@ -388,12 +1979,284 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+/**
+ * Create a server with every tool, resource and prompt
+ *
+ * Each connection gets its own server with its own resource subscriptions;
+ * all of them share the stream, its write lock and its change notifications.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'life-stream',
+      version: '0.1.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+
+  // Resources: views, tasks, goals and months of events
+  const subscriptions = new Set<string>();
+  let knownMonths: Set<string> | null = null; // As of the last resource listing
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const resources = await listResources();
+    knownMonths = new Set(await listEventMonths());
+    return { resources };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [await readResource(request.params.uri)] };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Tell the client which resources changed when any client appends an event
+  const unsubscribe = onEventAppended((event) => {
+    for (const uri of resourcesAffectedBy(event, subscriptions)) {
+      server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+
+    // The first event of a month adds a resource to the list
+    const month = partitionFor(event.ts);
+    if (knownMonths && !knownMonths.has(month)) {
+      knownMonths.add(month);
+      server.sendResourceListChanged().catch(() => {});
+    }
+  });
+  server.onclose = unsubscribe;
+
+  // Prompts: weekly review, daily check-in, planning and goal check-in
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { description, messages } = await getPrompt(request.params.name, request.params.arguments);
+    return { description, messages };
+  });
+
+  return server;
+}
 
-// Start the server
+/**
+ * Add or override properties of an input schema built from the event schema
+ */
+function withProperties<T extends { properties: Record<string, any> }>(schema: T, properties: Record<string, any>): T {
+  return { ...schema, properties: { ...schema.properties, ...properties } };
+}
+
+/**
+ * Get the timestamp to log a write tool's event at, or undefined for now
+ */
+function whenTimestamp(when?: string): string | undefined {
+  return when ? parseWhen(when).ts : undefined;
+}
+
+/**
+ * Resolve an as_of parameter, which may be a phrase such as "1 March"
+ */
+function asOfParam(asOf?: string): string | undefined {
+  return asOf ? parseAsOf(asOf) : undefined;
+}
+
+const COMPACT_VALUE_LENGTH = 60;
+
+/**
+ * Render an event (or query row) on one line, e.g.
+ * "2026-01-15T07:30:00.000+01:00 exercise.completed activity=run distance_km=10.2 (e-...)"
+ */
+function formatCompactRow(row: Record<string, any>): string {
+  const { ts, type, id, event_id, data, ...rest } = row;
+  const parts = [ts, type, id].filter(value => value !== undefined && value !== null).map(String);
+
+  const flatten = (value: any, prefix: string) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [key, nested] of Object.entries(value)) {
+        flatten(nested, prefix ? `${prefix}.${key}` : key);
+      }
+      return;
+    }
+    let text = Array.isArray(value) ? value.join(',') : String(value);
+    text = text.replace(/\s+/g, ' ');
+    if (text.length > COMPACT_VALUE_LENGTH) {
+      text = `${text.slice(0, COMPACT_VALUE_LENGTH - 1)}…`;
+    }
+    parts.push(`${prefix}=${/[ =]/.test(text) ? JSON.stringify(text) : text}`);
+  };
+  flatten(rest, '');
+  flatten(data, '');
+
+  if (event_id) parts.push(`(${event_id})`);
+  return parts.join(' ');
+}
+
+interface HttpOptions {
+  host: string;
+  port: number;
+  token: string;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  openRequests: number; // Includes a standing GET stream for notifications
+}
+
+// Sessions are dropped after this long without requests, and no more than
+// this many are kept, since a client that goes away rarely says goodbye
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const MAX_SESSIONS = 32;
+
+/**
+ * Read the HTTP options from flags, falling back to the environment
+ *
+ * --host (LIFE_MCP_HOST, default 127.0.0.1), --port (LIFE_MCP_PORT, default
+ * 3000) and --token (LIFE_MCP_TOKEN, required).
+ */
+function httpOptions(args: string[]): HttpOptions {
+  const flag = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const host = flag('host') || process.env.LIFE_MCP_HOST || '127.0.0.1';
+  const port = Number(flag('port') || process.env.LIFE_MCP_PORT || 3000);
+  const token = flag('token') || process.env.LIFE_MCP_TOKEN;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${flag('port') || process.env.LIFE_MCP_PORT}`);
+  }
+  if (!token) {
+    throw new Error('Set LIFE_MCP_TOKEN (or pass --token) to serve over HTTP');
+  }
+  return { host, port, token };
+}
+
+/**
+ * Serve streamable HTTP on /mcp, one session (and server) per client
+ *
+ * Every request must carry `Authorization: Bearer <token>`. All sessions
+ * write through this one process, so appends are serialized by the stream
+ * lock instead of racing between processes. A session with no open request
+ * for SESSION_IDLE_MS is closed, which also drops its server's listener on
+ * the stream, and new sessions are refused past MAX_SESSIONS.
+ */
+async function serveHttp({ host, port, token }: HttpOptions) {
+  const sessions = new Map<string, HttpSession>();
+  const expected = Buffer.from(`Bearer ${token}`);
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const session of sessions.values()) {
+      if (session.openRequests === 0 && session.lastSeen < cutoff) {
+        session.transport.close().catch(error => console.error('Error closing idle MCP session:', error));
+      }
+    }
+  }, 60 * 1000);
+  sweep.unref();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      if (new URL(req.url || '/', 'http://localhost').pathname !== '/mcp') {
+        return sendHttpError(res, 404, 'Not found');
+      }
+
+      const authorization = Buffer.from(req.headers.authorization || '');
+      if (authorization.length !== expected.length || !timingSafeEqual(authorization, expected)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        return sendHttpError(res, 401, 'Unauthorized');
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+      if (existing) {
+        existing.lastSeen = Date.now();
+        existing.openRequests++;
+        res.once('close', () => {
+          existing.openRequests--;
+          existing.lastSeen = Date.now();
+        });
+        return await existing.transport.handleRequest(req, res);
+      }
+      if (sessionId) {
+        // Tells the client to start a new session, e.g. after a restart
+        return sendHttpError(res, 404, 'Unknown session');
+      }
+      if (sessions.size >= MAX_SESSIONS) {
+        return sendHttpError(res, 503, 'Too many sessions');
+      }
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, lastSeen: Date.now(), openRequests: 0 });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+      await createServer().connect(transport);
+      await transport.handleRequest(req, res);
+
+      // Anything but an initialize request is refused without a session
+      if (!transport.sessionId) await transport.close();
+    } catch (error) {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) sendHttpError(res, 500, 'Internal server error');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, resolve);
+  });
+  console.error(`Life Stream MCP server listening on http://${host}:${port}/mcp`);
+
+  process.on('SIGINT', async () => {
+    clearInterval(sweep);
+    for (const session of sessions.values()) await session.transport.close();
+    httpServer.close();
+    process.exit(0);
+  });
+}
+
+function sendHttpError(res: ServerResponse, status: number, message: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+// Start the server on stdio, or over HTTP with --http
 async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--http')) {
+    await serveHttp(httpOptions(args));
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error('Life Stream MCP server running on stdio');
 }
 
@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+/**
+ * Migrate Partitions CLI
+ *
+ * Move events that sit in the wrong monthly file into the file of their day
+ * in the home timezone (LIFE_TZ)
+ *
+ * Usage:
+ *   npm run migrate:partitions -- [--dry-run]
+ *
+ * Lines are moved intact, so event IDs and timestamps do not change.
+ */
+
+import { findMisplacedEvents, repartitionEvents } from './lib/integrity.js';
+import { HOME_TZ } from './lib/config.js';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`Checking event partitions (timezone ${HOME_TZ})...\n`);
+
+  try {
+    const moves = dryRun ? await findMisplacedEvents() : await repartitionEvents();
+
+    if (moves.length === 0) {
+      console.log('✅ Every event is in the right file');
+      return;
+    }
+
+    for (const move of moves) {
+      console.log(`  - ${move.type} at ${move.ts} (${move.event_id || 'legacy event'}): ${move.from} → ${move.to}`);
+    }
+    console.log();
+
+    if (dryRun) {
+      console.log(`${moves.length} event${moves.length === 1 ? '' : 's'} would be moved. Run without --dry-run to move them.`);
+    } else {
+      console.log(`✅ Moved ${moves.length} event${moves.length === 1 ? '' : 's'}`);
+    }
+  } catch (error) {
+    console.error('❌ Error migrating partitions:', error);
+    process.exit(1);
+  }
+}
+
+main();
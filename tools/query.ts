@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+/**
+ * Query CLI
+ *
+ * Run a structured query over the event stream
+ *
+ * Usage:
+ *   npm run query -- '<query>' [--as-of <date>] [--json]
+ *
+ * Examples:
+ *   npm run query -- 'type = exercise.completed AND data.distance_km > 10 AND month = 2026-01'
+ *   npm run query -- 'type = task.created AND data.area = work | fields id, data.title, data.priority'
+ *   npm run query -- 'type = exercise.completed | group by month count, sum data.distance_km'
+ *
+ * See runQuery in tools/lib/query.ts for the full syntax. --as-of takes a
+ * date, a timestamp or a phrase such as "last friday".
+ */
+
+import { runQuery } from './lib/query.js';
+import { parseAsOf } from './lib/natural-dates.js';
+
+function usage(): never {
+  console.error("Usage: npm run query -- '<query>' [--as-of <date>] [--json]");
+  process.exit(1);
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const asOfIndex = args.indexOf('--as-of');
+  const asOf = asOfIndex >= 0 ? args[asOfIndex + 1] : undefined;
+  if (asOfIndex >= 0 && !asOf) usage();
+
+  const positional = args.filter((arg, i) =>
+    arg !== '--json' && (asOfIndex < 0 || (i !== asOfIndex && i !== asOfIndex + 1))
+  );
+  if (positional.length !== 1) usage();
+
+  try {
+    const result = await runQuery(positional[0], { asOf: asOf && parseAsOf(asOf) });
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    // Whole events print one per line; projected fields and groups as a table
+    if (result.rows.every(row => 'type' in row && 'data' in row)) {
+      result.rows.forEach(row => console.log(JSON.stringify(row)));
+    } else if (result.rows.length > 0) {
+      const columns = [...new Set(result.rows.flatMap(row => Object.keys(row)))];
+      console.log(columns.join('\t'));
+      result.rows.forEach(row => console.log(columns.map(column => formatCell(row[column])).join('\t')));
+    }
+
+    console.log(`\n${result.count} row${result.count === 1 ? '' : 's'} (${result.total} matching event${result.total === 1 ? '' : 's'})`);
+  } catch (error: any) {
+    console.error('❌', error.message);
+    process.exit(1);
+  }
+}
+
+main();
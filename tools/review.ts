@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+/**
+ * Review CLI
+ *
+ * Print the review of a period, compared with the period before it
+ *
+ * Usage:
+ *   npm run review -- [period] [--write]
+ *
+ * A period is a key (2026-01-15, 2026-W03, 2026-01, 2026-Q1 or 2026) or one
+ * of day, week, month, quarter or year for the current one (default: week).
+ * Days are counted in the LIFE_TZ timezone. With --write, the review is also
+ * saved to views/reviews/<period>.md.
+ */
+
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { generatePeriodReviewView } from './lib/views.js';
+import { parsePeriod, periodContaining, PERIOD_KINDS } from './lib/periods.js';
+import type { PeriodKind } from './lib/types.js';
+
+function usage(): never {
+  console.error('Usage: npm run review -- [period] [--write]');
+  console.error('  period: 2026-01-15, 2026-W03, 2026-01, 2026-Q1, 2026 or day|week|month|quarter|year');
+  process.exit(1);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const write = args.includes('--write');
+  const positional = args.filter(arg => arg !== '--write');
+  if (positional.length > 1) usage();
+
+  try {
+    const key = positional[0] || 'week';
+    const period = PERIOD_KINDS.includes(key as PeriodKind)
+      ? periodContaining(key as PeriodKind)
+      : parsePeriod(key);
+
+    const review = await generatePeriodReviewView(period.key);
+    console.log(review);
+
+    if (write) {
+      const dir = join(process.env.LIFE_DIR || process.cwd(), 'views', 'reviews');
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${period.key}.md`), review, 'utf-8');
+      console.log(`✅ Saved views/reviews/${period.key}.md`);
+    }
+  } catch (error: any) {
+    console.error('❌', error.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -7,6 +7,7 @@
  */
 
 import { eventExists, createSyncedEvent, writeSyncedEvents, getLatestSyncTimestamp } from './lib/sync.js';
+import { dayKey, normalizeTimestamp } from './lib/dates.js';
 import type { BaseEvent } from './lib/types.js';
 
 interface FitbitWeight {
@@ -130,7 +131,9 @@ async function fetchSleepLogs(accessToken: string, startDate: string, endDate: s
  * Convert weight log to event
  */
 function weightToEvent(weight: FitbitWeight): BaseEvent {
-  const timestamp = `${weight.date}T${weight.time}`;
+  // Fitbit reports weigh-ins in local time without an offset; pin them to
+  // the home timezone
+  const timestamp = normalizeTimestamp(`${weight.date}T${weight.time}`);
 
   return createSyncedEvent(
     'health.weight',
@@ -167,10 +170,10 @@ function sleepToEvent(sleep: FitbitSleep): BaseEvent {
 }
 
 /**
- * Format date for Fitbit API (YYYY-MM-DD)
+ * Format date for Fitbit API (YYYY-MM-DD), in the home timezone
  */
 function formatDate(date: Date): string {
-  return date.toISOString().split('T')[0];
+  return dayKey(date);
 }
 
 /**